@@ -0,0 +1,9 @@
+class AudioRecorderPlayer {
+  startRecorder = jest.fn(() => Promise.resolve('file:///recording.m4a'));
+  stopRecorder = jest.fn(() => Promise.resolve('file:///recording.m4a'));
+  addRecordBackListener = jest.fn();
+  removeRecordBackListener = jest.fn();
+}
+
+module.exports = AudioRecorderPlayer;
+module.exports.default = AudioRecorderPlayer;
@@ -0,0 +1,11 @@
+const mockFs = {
+  DocumentDirectoryPath: '/documents',
+  CachesDirectoryPath: '/caches',
+  mkdir: jest.fn(() => Promise.resolve()),
+  copyFile: jest.fn(() => Promise.resolve()),
+  exists: jest.fn(() => Promise.resolve(true)),
+  unlink: jest.fn(() => Promise.resolve()),
+};
+
+module.exports = mockFs;
+module.exports.default = mockFs;
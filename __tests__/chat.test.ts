@@ -0,0 +1,32 @@
+/**
+ * @format
+ */
+
+import { buildChatId, directChatPeer } from '../services/chat';
+
+jest.mock('../services/firebase', () => ({ db: {}, auth: {} }));
+
+describe('buildChatId', () => {
+  test('is the same whichever member starts the chat', () => {
+    expect(buildChatId('bob', 'alice')).toBe('alice_bob');
+    expect(buildChatId('alice', 'bob')).toBe('alice_bob');
+  });
+
+  test('drops repeated uids', () => {
+    expect(buildChatId('alice', 'alice')).toBe('alice');
+    expect(buildChatId('carol', 'alice', 'carol')).toBe('alice_carol');
+  });
+});
+
+describe('directChatPeer', () => {
+  test('returns the other member of a direct chat', () => {
+    expect(directChatPeer('alice_bob', 'alice')).toBe('bob');
+    expect(directChatPeer('alice_bob', 'bob')).toBe('alice');
+  });
+
+  test('is undefined for chats the user is not in and for group ids', () => {
+    expect(directChatPeer('alice_bob', 'carol')).toBeUndefined();
+    expect(directChatPeer('alice_bob_carol', 'alice')).toBeUndefined();
+    expect(directChatPeer('Xk3pGroupId', 'alice')).toBeUndefined();
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * @format
+ */
+
+import { EnvValues, validateConfig } from '../services/config';
+
+const validEnv: EnvValues = {
+  CLOUDINARY_URL: 'https://api.cloudinary.com/v1_1/demo/auto/upload',
+  CLOUDINARY_UPLOAD_PRESET: 'unsigned',
+  FIREBASE_API_KEY: 'key',
+  FIREBASE_AUTH_DOMAIN: 'demo.firebaseapp.com',
+  FIREBASE_PROJECT_ID: 'demo',
+  FIREBASE_STORAGE_BUCKET: 'demo.appspot.com',
+  FIREBASE_MESSAGING_SENDER_ID: '123',
+  FIREBASE_APP_ID: '1:123:web:abc',
+};
+
+describe('validateConfig', () => {
+  test('accepts a complete environment', () => {
+    expect(validateConfig(validEnv)).toEqual([]);
+    expect(validateConfig(validEnv, 'Staging')).toEqual([]);
+  });
+
+  test('reports missing and blank values', () => {
+    const issues = validateConfig({ ...validEnv, FIREBASE_API_KEY: undefined, FIREBASE_APP_ID: '   ' });
+
+    expect(issues).toEqual([
+      { key: 'FIREBASE_API_KEY', message: 'is missing or empty' },
+      { key: 'FIREBASE_APP_ID', message: 'is missing or empty' },
+    ]);
+  });
+
+  test('names the resource type when the upload URL is not /auto/upload', () => {
+    const [imageIssue] = validateConfig({
+      ...validEnv,
+      CLOUDINARY_URL: 'https://api.cloudinary.com/v1_1/demo/image/upload',
+    });
+    const [videoIssue] = validateConfig({
+      ...validEnv,
+      CLOUDINARY_URL: 'https://api.cloudinary.com/v1_1/demo/video/upload',
+    });
+
+    expect(imageIssue.key).toBe('CLOUDINARY_URL');
+    expect(imageIssue.message).toContain('/auto/upload');
+    expect(imageIssue.message).toContain('image/upload');
+    expect(videoIssue.message).toContain('video/upload');
+  });
+
+  test('rejects upload URLs that are not Cloudinary upload endpoints', () => {
+    expect(validateConfig({ ...validEnv, CLOUDINARY_URL: 'https://example.com/upload' })).toEqual([
+      {
+        key: 'CLOUDINARY_URL',
+        message: 'must look like https://api.cloudinary.com/v1_1/<cloudName>/auto/upload',
+      },
+    ]);
+  });
+
+  test('rejects unknown profiles', () => {
+    expect(validateConfig(validEnv, 'qa')).toEqual([
+      { key: 'APP_ENV', message: 'must be one of development, staging, production' },
+    ]);
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * @format
+ */
+
+import { createFeedPager, FeedWindow } from '../services/feed';
+
+jest.mock('../services/firebase', () => ({ db: {}, auth: {} }));
+
+type Constraint = { kind: string; field?: string; op?: string; value?: unknown; cursor?: { id: string } };
+type MockListener = {
+  constraints: Constraint[];
+  next: (snapshot: unknown) => void;
+  error: (error: Error) => void;
+  unsubscribe: jest.Mock;
+};
+
+const mockListeners: MockListener[] = [];
+const ANCHOR_MS = 1000;
+
+jest.mock('firebase/firestore', () => {
+  class MockTimestamp {
+    ms: number;
+    constructor(ms: number) {
+      this.ms = ms;
+    }
+    toMillis() {
+      return this.ms;
+    }
+    static now() {
+      return new MockTimestamp(1000);
+    }
+    static fromMillis(ms: number) {
+      return new MockTimestamp(ms);
+    }
+  }
+  return {
+    Timestamp: MockTimestamp,
+    collection: () => ({ constraints: [] }),
+    query: (source: { constraints: unknown[] }, ...constraints: unknown[]) => ({
+      constraints: [...source.constraints, ...constraints],
+    }),
+    where: (field: string, op: string, value: unknown) => ({ kind: 'where', field, op, value }),
+    orderBy: (field: string) => ({ kind: 'orderBy', field }),
+    limit: (value: number) => ({ kind: 'limit', value }),
+    startAfter: (cursor: unknown) => ({ kind: 'startAfter', cursor }),
+    onSnapshot: (target: { constraints: Constraint[] }, ...args: unknown[]) => {
+      const [next, error] = (typeof args[0] === 'function' ? args : args.slice(1)) as [
+        MockListener['next'],
+        MockListener['error']
+      ];
+      const listener = { constraints: target.constraints, next, error, unsubscribe: jest.fn() };
+      mockListeners.push(listener);
+      return listener.unsubscribe;
+    },
+  };
+});
+
+const { Timestamp } = jest.requireMock('firebase/firestore');
+
+const snapshot = (posts: [string, number][]) => ({
+  size: posts.length,
+  docs: posts.map(([id, ms]) => ({
+    id,
+    data: () => ({ userId: 'someone', createdAt: Timestamp.fromMillis(ms) }),
+  })),
+});
+
+const authorsOf = (listener: MockListener) =>
+  listener.constraints.find((constraint) => constraint.field === 'userId')?.value as string[];
+
+const listenersFor = (author: string, op: '<=' | '>') =>
+  mockListeners.filter(
+    (listener) =>
+      authorsOf(listener).includes(author) &&
+      listener.constraints.some((constraint) => constraint.field === 'createdAt' && constraint.op === op)
+  );
+
+const pageOf = (author: string, index: number) => listenersFor(author, '<=')[index];
+const freshOf = (author: string) => listenersFor(author, '>')[0];
+
+// Eleven authors make two buckets: u0…u9 and u10.
+const userIds = Array.from({ length: 11 }, (_, index) => `u${index}`);
+
+const startPager = () => {
+  const windows: FeedWindow[] = [];
+  const onError = jest.fn();
+  const pager = createFeedPager({ userIds, pageSize: 2, onChange: (window) => windows.push(window), onError });
+  const latest = () => windows[windows.length - 1];
+  const ids = () => latest().posts.map((post) => post.id);
+  return { pager, onError, latest, ids };
+};
+
+beforeEach(() => {
+  mockListeners.length = 0;
+});
+
+describe('createFeedPager', () => {
+  test('queries authors in buckets of ten, anchored at the start time', () => {
+    startPager();
+
+    expect(mockListeners.map(authorsOf).map((ids) => ids.length)).toEqual([10, 10, 1, 1]);
+    const anchor = pageOf('u0', 0).constraints.find((constraint) => constraint.op === '<=')?.value as {
+      toMillis: () => number;
+    };
+    expect(anchor.toMillis()).toBe(ANCHOR_MS);
+  });
+
+  test('holds back posts older than the frontier of an unfinished bucket', () => {
+    const { latest, ids } = startPager();
+
+    pageOf('u0', 0).next(snapshot([['a1', 900], ['a2', 800]]));
+    expect(latest()).toMatchObject({ posts: [], ready: false });
+
+    pageOf('u10', 0).next(snapshot([['b1', 850], ['b2', 100]]));
+    // b2 waits until the first bucket has loaded down to it.
+    expect(ids()).toEqual(['a1', 'b1', 'a2']);
+    expect(latest()).toMatchObject({ ready: true, hasMore: true, loadingMore: false });
+  });
+
+  test('loads the blocking bucket from its cursor and merges the next page', () => {
+    const { pager, latest, ids } = startPager();
+    pageOf('u0', 0).next(snapshot([['a1', 900], ['a2', 800]]));
+    pageOf('u10', 0).next(snapshot([['b1', 850], ['b2', 100]]));
+
+    pager.loadMore();
+
+    const nextPage = pageOf('u0', 1);
+    expect(nextPage.constraints.find((constraint) => constraint.kind === 'startAfter')?.cursor?.id).toBe('a2');
+    expect(pageOf('u10', 1)).toBeUndefined();
+    expect(latest().loadingMore).toBe(true);
+
+    nextPage.next(snapshot([['a3', 500]]));
+    expect(ids()).toEqual(['a1', 'b1', 'a2', 'a3', 'b2']);
+    expect(latest()).toMatchObject({ hasMore: true, loadingMore: false });
+  });
+
+  test('keeps loaded pages live and adds posts created after the anchor on top', () => {
+    const { ids } = startPager();
+    pageOf('u0', 0).next(snapshot([['a1', 900]]));
+    pageOf('u10', 0).next(snapshot([['b1', 850]]));
+    expect(ids()).toEqual(['a1', 'b1']);
+
+    freshOf('u10').next(snapshot([['new', 2000]]));
+    pageOf('u0', 0).next(snapshot([]));
+
+    expect(ids()).toEqual(['new', 'b1']);
+  });
+
+  test('reports the first error once for the whole feed', () => {
+    const { onError, latest } = startPager();
+
+    pageOf('u0', 0).error(new Error('denied'));
+    pageOf('u10', 0).error(new Error('denied'));
+    freshOf('u0').error(new Error('denied'));
+
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(latest()).toMatchObject({ posts: [], ready: true, hasMore: false });
+  });
+
+  test('is ready straight away without authors', () => {
+    const onChange = jest.fn();
+    createFeedPager({ userIds: [], onChange, onError: jest.fn() });
+
+    expect(mockListeners).toHaveLength(0);
+    expect(onChange).toHaveBeenCalledWith({ posts: [], ready: true, hasMore: false, loadingMore: false });
+  });
+
+  test('stops every listener on dispose', () => {
+    const { pager } = startPager();
+    pageOf('u0', 0).next(snapshot([['a1', 900], ['a2', 800]]));
+    pageOf('u10', 0).next(snapshot([['b1', 850], ['b2', 100]]));
+    pager.loadMore();
+
+    pager.dispose();
+
+    expect(mockListeners).toHaveLength(5);
+    mockListeners.forEach((listener) => expect(listener.unsubscribe).toHaveBeenCalled());
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * @format
+ */
+
+import { Timestamp } from 'firebase/firestore';
+import { AppNotification, describeNotificationGroup, groupNotifications } from '../services/notifications';
+
+jest.mock('../services/firebase', () => ({ db: {}, auth: {} }));
+
+const notification = (overrides: Partial<AppNotification> & Pick<AppNotification, 'id' | 'type' | 'actorId'>) =>
+  ({ read: false, createdAt: Timestamp.fromMillis(0), ...overrides } as AppNotification);
+
+const names: Record<string, string> = { ana: 'Ana', ben: 'Ben', cy: 'Cy', dee: 'Dee' };
+const nameFor = (uid: string) => names[uid] ?? 'Someone';
+
+describe('groupNotifications', () => {
+  test('folds likes on the same post into one group, newest actor first', () => {
+    const groups = groupNotifications([
+      notification({ id: 'l3', type: 'like', actorId: 'cy', postId: 'p1' }),
+      notification({ id: 'l2', type: 'like', actorId: 'ben', postId: 'p1', read: true }),
+      notification({ id: 'l1', type: 'like', actorId: 'ana', postId: 'p2' }),
+    ]);
+
+    expect(groups.map((group) => group.key)).toEqual(['like:p1', 'like:p2']);
+    expect(groups[0].actorIds).toEqual(['cy', 'ben']);
+    expect(groups[0].ids).toEqual(['l3', 'l2']);
+    expect(groups[0].latest.id).toBe('l3');
+  });
+
+  test('lists each actor once and keeps the group unread while any entry is', () => {
+    const [group] = groupNotifications([
+      notification({ id: 'c2', type: 'comment', actorId: 'ana', postId: 'p1', read: true }),
+      notification({ id: 'c1', type: 'comment', actorId: 'ana', postId: 'p1' }),
+    ]);
+
+    expect(group.actorIds).toEqual(['ana']);
+    expect(group.ids).toEqual(['c2', 'c1']);
+    expect(group.read).toBe(false);
+  });
+
+  test('keeps chats apart and follow types together', () => {
+    const groups = groupNotifications([
+      notification({ id: 'message_a', type: 'message', actorId: 'ana', chatId: 'a' }),
+      notification({ id: 'message_b', type: 'message', actorId: 'ana', chatId: 'b' }),
+      notification({ id: 'follow_request_ben', type: 'follow_request', actorId: 'ben' }),
+      notification({ id: 'follow_request_cy', type: 'follow_request', actorId: 'cy' }),
+    ]);
+
+    expect(groups.map((group) => group.key)).toEqual(['message_a', 'message_b', 'follow_request']);
+    expect(groups[2].actorIds).toEqual(['ben', 'cy']);
+  });
+});
+
+describe('describeNotificationGroup', () => {
+  const describeOne = (notifications: AppNotification[]) =>
+    describeNotificationGroup(groupNotifications(notifications)[0], nameFor);
+
+  test('names one, two or many actors', () => {
+    const like = (id: string, actorId: string) => notification({ id, type: 'like', actorId, postId: 'p1' });
+
+    expect(describeOne([like('1', 'ana')])).toBe('Ana liked your post');
+    expect(describeOne([like('1', 'ana'), like('2', 'ben')])).toBe('Ana and Ben liked your post');
+    expect(describeOne([like('1', 'ana'), like('2', 'ben'), like('3', 'cy'), like('4', 'dee')])).toBe(
+      'Ana and 3 others liked your post'
+    );
+  });
+
+  test('quotes the latest comment or reply', () => {
+    expect(describeOne([notification({ id: '1', type: 'comment', actorId: 'ana', postId: 'p1', text: 'Nice' })])).toBe(
+      'Ana commented on your post: “Nice”'
+    );
+    expect(describeOne([notification({ id: '1', type: 'reply', actorId: 'ben', postId: 'p1' })])).toBe(
+      'Ben replied to your comment'
+    );
+  });
+
+  test('counts folded messages and quotes a single one', () => {
+    const message = (count?: number) =>
+      notification({ id: 'message_a', type: 'message', actorId: 'ana', chatId: 'a', text: 'Hi', count });
+
+    expect(describeOne([message(3)])).toBe('Ana sent you 3 messages');
+    expect(describeOne([message(1)])).toBe('Ana sent you a message: “Hi”');
+    expect(describeOne([message(0)])).toBe('Ana sent you a message: “Hi”');
+    expect(describeOne([message()])).toBe('Ana sent you a message: “Hi”');
+  });
+
+  test('describes follow requests and accepts', () => {
+    expect(describeOne([notification({ id: '1', type: 'follow_request', actorId: 'cy' })])).toBe(
+      'Cy asked to follow you'
+    );
+    expect(describeOne([notification({ id: '1', type: 'follow_accept', actorId: 'unknown' })])).toBe(
+      'Someone accepted your follow request'
+    );
+  });
+});
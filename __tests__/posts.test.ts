@@ -0,0 +1,30 @@
+/**
+ * @format
+ */
+
+import { getPostMedia } from '../services/posts';
+
+jest.mock('../services/firebase', () => ({ db: {}, auth: {} }));
+
+describe('getPostMedia', () => {
+  test('returns carousel media in order, skipping entries without a URL', () => {
+    const media = [
+      { url: 'https://cdn/a.jpg', type: 'image' as const },
+      { url: '', type: 'image' as const },
+      { url: 'https://cdn/b.mp4', type: 'video' as const },
+    ];
+
+    expect(getPostMedia({ media, mediaUrl: 'https://cdn/a.jpg', mediaType: 'image' })).toEqual([media[0], media[2]]);
+  });
+
+  test('falls back to the single media fields of older posts', () => {
+    expect(getPostMedia({ mediaUrl: 'https://cdn/c.mp4', mediaType: 'video' })).toEqual([
+      { url: 'https://cdn/c.mp4', type: 'video' },
+    ]);
+    expect(getPostMedia({ mediaUrl: 'https://cdn/d.jpg' })).toEqual([{ url: 'https://cdn/d.jpg', type: 'image' }]);
+  });
+
+  test('is empty for posts without media', () => {
+    expect(getPostMedia({ media: [] })).toEqual([]);
+  });
+});
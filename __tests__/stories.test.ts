@@ -0,0 +1,25 @@
+/**
+ * @format
+ */
+
+import { Timestamp } from 'firebase/firestore';
+import { isStoryExpired } from '../services/stories';
+
+jest.mock('../services/firebase', () => ({ db: {}, auth: {} }));
+
+describe('isStoryExpired', () => {
+  const now = 1_700_000_000_000;
+
+  test('is expired once expiresAt is reached', () => {
+    expect(isStoryExpired({ expiresAt: Timestamp.fromMillis(now - 1) }, now)).toBe(true);
+    expect(isStoryExpired({ expiresAt: Timestamp.fromMillis(now) }, now)).toBe(true);
+  });
+
+  test('is live before expiresAt', () => {
+    expect(isStoryExpired({ expiresAt: Timestamp.fromMillis(now + 1) }, now)).toBe(false);
+  });
+
+  test('treats stories without expiresAt as live', () => {
+    expect(isStoryExpired({}, now)).toBe(false);
+  });
+});
@@ -0,0 +1,241 @@
+/**
+ * @format
+ */
+
+type Queue = typeof import('../services/uploadQueue');
+
+const STORAGE_KEY = 'socialgram/upload-queue';
+
+const mockTransaction = {
+  get: jest.fn(),
+  set: jest.fn(),
+};
+
+jest.mock('../services/firebase', () => ({
+  auth: { currentUser: { uid: 'me', displayName: 'Me', photoURL: null } },
+  db: {},
+}));
+
+jest.mock('../services/upload', () => ({
+  uploadMedia: jest.fn(),
+  isUploadCancelled: () => false,
+  UploadError: class UploadError extends Error {},
+}));
+
+jest.mock('firebase/firestore', () => ({
+  FirestoreError: class FirestoreError extends Error {
+    code: string;
+    constructor(code: string, message: string) {
+      super(message);
+      this.code = code;
+    }
+  },
+  doc: (_db: unknown, collectionPath: string, id: string) => ({ path: `${collectionPath}/${id}` }),
+  runTransaction: (_db: unknown, update: (transaction: unknown) => Promise<unknown>) => update(mockTransaction),
+  serverTimestamp: () => 'server-time',
+  Timestamp: { fromMillis: (ms: number) => ({ ms }) },
+}));
+
+const flush = async () => {
+  for (let round = 0; round < 10; round += 1) {
+    await new Promise<void>((resolve) => setImmediate(resolve));
+  }
+};
+
+const load = () => {
+  jest.resetModules();
+  return {
+    queue: require('../services/uploadQueue') as Queue,
+    storage: require('@react-native-async-storage/async-storage'),
+    fs: require('@dr.pogodin/react-native-fs'),
+    netInfo: require('@react-native-community/netinfo'),
+    FirestoreError: require('firebase/firestore').FirestoreError,
+    uploadMedia: require('../services/upload').uploadMedia as jest.Mock,
+  };
+};
+
+const watch = (queue: Queue) => {
+  let items: import('../services/uploadQueue').QueuedUpload[] = [];
+  queue.subscribeToUploadQueue((next) => {
+    items = next;
+  });
+  return () => items;
+};
+
+beforeEach(() => {
+  mockTransaction.get.mockReset().mockResolvedValue({ exists: () => false });
+  mockTransaction.set.mockReset();
+});
+
+describe('upload queue', () => {
+  test('hydrate converts single-asset items and restarts interrupted uploads', async () => {
+    const { queue, storage } = load();
+    await storage.setItem(
+      STORAGE_KEY,
+      JSON.stringify([
+        {
+          id: 'legacy',
+          kind: 'post',
+          ownerId: 'me',
+          media: { uri: 'file:///old.mp4', type: 'video/mp4' },
+          mediaType: 'video',
+          mediaUrl: 'https://cdn/old.mp4',
+          caption: '',
+          status: 'uploading',
+          progress: 0.4,
+        },
+        {
+          id: 'failed',
+          kind: 'story',
+          ownerId: 'me',
+          media: [{ asset: { uri: 'file:///story.jpg' }, type: 'image', progress: 0 }],
+          caption: '',
+          status: 'failed',
+          progress: 0,
+          error: 'Upload rejected',
+        },
+        { id: 'broken', kind: 'post', ownerId: 'me', status: 'queued' },
+      ])
+    );
+
+    const items = watch(queue);
+    await flush();
+
+    expect(items().map((item) => item.id)).toEqual(['legacy', 'failed']);
+    expect(items()[0]).toMatchObject({
+      status: 'queued',
+      progress: 0,
+      media: [
+        {
+          asset: { uri: 'file:///old.mp4', type: 'video/mp4' },
+          type: 'video',
+          progress: 0,
+          uploaded: { url: 'https://cdn/old.mp4', type: 'video' },
+        },
+      ],
+    });
+    expect(items()[0]).not.toHaveProperty('mediaUrl');
+    expect(items()[1]).toMatchObject({ status: 'failed', error: 'Upload rejected' });
+  });
+
+  test('retry uploads only the failed files and publishes under the item id', async () => {
+    const { queue, fs, uploadMedia } = load();
+    uploadMedia.mockImplementation(async (asset: { uri: string }) => {
+      if (asset.uri.endsWith('-1.mp4')) {
+        throw new Error('Upload rejected');
+      }
+      return { url: 'https://cdn/first.jpg', resourceType: 'image', width: 100, height: 80 };
+    });
+    const items = watch(queue);
+
+    const item = await queue.enqueueUpload({
+      kind: 'post',
+      caption: ' Hello ',
+      media: [
+        { asset: { uri: 'content://picker/first', fileName: 'first.jpg' }, type: 'image' },
+        { asset: { uri: 'file:///tmp/second.mp4' }, type: 'video' },
+      ],
+    });
+    await flush();
+
+    const copies = [0, 1].map((index) => `/documents/upload-queue/${item.id}-${index}.${index ? 'mp4' : 'jpg'}`);
+    expect(fs.copyFile).toHaveBeenCalledWith('content://picker/first', copies[0]);
+    expect(fs.copyFile).toHaveBeenCalledWith('file:///tmp/second.mp4', copies[1]);
+    expect(items()[0]).toMatchObject({ status: 'failed', error: 'Upload rejected' });
+    expect(items()[0].media[0].uploaded).toEqual({
+      url: 'https://cdn/first.jpg',
+      type: 'image',
+      width: 100,
+      height: 80,
+    });
+
+    uploadMedia.mockClear();
+    uploadMedia.mockResolvedValue({ url: 'https://cdn/second.mp4', resourceType: 'video' });
+    queue.retryUpload(item.id);
+    await flush();
+
+    expect(uploadMedia).toHaveBeenCalledTimes(1);
+    expect(uploadMedia.mock.calls[0][0].uri).toBe(`file://${copies[1]}`);
+    expect(mockTransaction.set).toHaveBeenCalledWith(
+      { path: `posts/${item.id}` },
+      expect.objectContaining({
+        userId: 'me',
+        caption: 'Hello',
+        mediaUrl: 'https://cdn/first.jpg',
+        media: [
+          { url: 'https://cdn/first.jpg', type: 'image', width: 100, height: 80 },
+          { url: 'https://cdn/second.mp4', type: 'video' },
+        ],
+      })
+    );
+    expect(items()).toEqual([]);
+    expect(fs.unlink).toHaveBeenCalledWith(copies[0]);
+    expect(fs.unlink).toHaveBeenCalledWith(copies[1]);
+  });
+
+  test('does not publish again when the doc from an earlier attempt exists', async () => {
+    const { queue, uploadMedia } = load();
+    uploadMedia.mockResolvedValue({ url: 'https://cdn/story.jpg', resourceType: 'image' });
+    mockTransaction.get.mockResolvedValue({ exists: () => true });
+    const items = watch(queue);
+
+    await queue.enqueueUpload({
+      kind: 'story',
+      caption: '',
+      media: [{ asset: { uri: 'file:///tmp/story.jpg' }, type: 'image' }],
+    });
+    await flush();
+
+    expect(mockTransaction.set).not.toHaveBeenCalled();
+    expect(items()).toEqual([]);
+  });
+
+  test('waits for the network when publishing fails offline and publishes on reconnect', async () => {
+    const { queue, netInfo, FirestoreError, uploadMedia } = load();
+    uploadMedia.mockResolvedValue({ url: 'https://cdn/photo.jpg', resourceType: 'image' });
+    mockTransaction.get.mockRejectedValueOnce(new FirestoreError('unavailable', 'Client is offline.'));
+    const items = watch(queue);
+    queue.startUploadQueue();
+    const onNetworkChange = netInfo.addEventListener.mock.calls[0][0];
+
+    const item = await queue.enqueueUpload({
+      kind: 'post',
+      caption: '',
+      media: [{ asset: { uri: 'file:///tmp/photo.jpg' }, type: 'image' }],
+    });
+    await flush();
+
+    expect(items()[0]).toMatchObject({ id: item.id, status: 'waiting-for-network' });
+    expect(uploadMedia).toHaveBeenCalledTimes(1);
+
+    onNetworkChange({ isConnected: false, isInternetReachable: false });
+    onNetworkChange({ isConnected: true, isInternetReachable: true });
+    await flush();
+
+    // The file was already accepted, so only the Firestore write is repeated.
+    expect(uploadMedia).toHaveBeenCalledTimes(1);
+    expect(mockTransaction.set).toHaveBeenCalledWith({ path: `posts/${item.id}` }, expect.anything());
+    expect(items()).toEqual([]);
+  });
+
+  test('discard drops the item, its saved entry and its copied files', async () => {
+    const { queue, storage, fs, uploadMedia } = load();
+    uploadMedia.mockReturnValue(new Promise(() => {}));
+    const items = watch(queue);
+
+    const item = await queue.enqueueUpload({
+      kind: 'post',
+      caption: '',
+      media: [{ asset: { uri: 'file:///tmp/photo.png' }, type: 'image' }],
+    });
+    await flush();
+    expect(items()[0]).toMatchObject({ id: item.id, status: 'uploading' });
+
+    queue.discardUpload(item.id);
+    await flush();
+
+    expect(items()).toEqual([]);
+    expect(JSON.parse(await storage.getItem(STORAGE_KEY))).toEqual([]);
+    expect(fs.unlink).toHaveBeenCalledWith(`/documents/upload-queue/${item.id}-0.png`);
+  });
+});
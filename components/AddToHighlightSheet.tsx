@@ -0,0 +1,161 @@
+import React, { useCallback, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import Icon from 'react-native-vector-icons/Ionicons';
+import Avatar from './ui/Avatar';
+import { useHighlights } from '../hooks/useHighlights';
+import {
+  addToHighlight,
+  createHighlight,
+  HighlightItem,
+  MAX_HIGHLIGHT_NAME_LENGTH,
+} from '../services/highlights';
+import { palette, radii, spacing, typography } from '../theme/tokens';
+
+type Props = {
+  uid: string;
+  // The sheet is shown while an item is set.
+  item: HighlightItem | null;
+  onClose: () => void;
+};
+
+const AddToHighlightSheet: React.FC<Props> = ({ uid, item, onClose }) => {
+  const { highlights } = useHighlights(item ? uid : null);
+  const [name, setName] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const run = useCallback(
+    async (action: () => Promise<unknown>, failure: string) => {
+      setBusy(true);
+      try {
+        await action();
+        setName('');
+        onClose();
+      } catch (error: any) {
+        console.error(failure, error);
+        Alert.alert('Error', error?.message ?? failure);
+      } finally {
+        setBusy(false);
+      }
+    },
+    [onClose]
+  );
+
+  return (
+    <Modal visible={!!item} transparent animationType="fade" onRequestClose={onClose}>
+      <Pressable style={styles.backdrop} onPress={onClose}>
+        <Pressable style={styles.sheet}>
+          <View style={styles.titleRow}>
+            <Text style={styles.title}>Add to highlight</Text>
+            {busy ? <ActivityIndicator color={palette.primary} /> : null}
+          </View>
+          <ScrollView style={styles.list}>
+            {highlights.map((highlight) => {
+              const included = !!item && highlight.items.some((entry) => entry.storyId === item.storyId);
+              return (
+                <TouchableOpacity
+                  key={highlight.id}
+                  style={styles.row}
+                  disabled={busy || included || !item}
+                  onPress={() =>
+                    item && run(() => addToHighlight(uid, highlight.id, item), 'Could not update the highlight.')
+                  }
+                >
+                  <Avatar label={highlight.name} uri={highlight.coverUrl} size={40} />
+                  <Text style={styles.rowLabel} numberOfLines={1}>
+                    {highlight.name}
+                  </Text>
+                  {included ? <Icon name="checkmark-circle" size={22} color={palette.primary} /> : null}
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+          <View style={styles.newRow}>
+            <TextInput
+              style={styles.input}
+              value={name}
+              onChangeText={setName}
+              placeholder="New highlight"
+              placeholderTextColor={palette.textMuted}
+              maxLength={MAX_HIGHLIGHT_NAME_LENGTH}
+              editable={!busy}
+            />
+            <TouchableOpacity
+              onPress={() => item && run(() => createHighlight(uid, name, item), 'Could not create the highlight.')}
+              disabled={busy || !name.trim()}
+              hitSlop={8}
+            >
+              <Icon name="add-circle" size={28} color={name.trim() ? palette.primary : palette.textDisabled} />
+            </TouchableOpacity>
+          </View>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: palette.overlay,
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: palette.surface,
+    borderTopLeftRadius: radii.lg,
+    borderTopRightRadius: radii.lg,
+    padding: spacing.lg,
+    paddingBottom: spacing.xxl,
+    gap: spacing.sm,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  title: {
+    color: palette.text,
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  list: {
+    maxHeight: 280,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+    paddingVertical: spacing.sm,
+  },
+  rowLabel: {
+    flex: 1,
+    color: palette.text,
+    fontSize: 16,
+  },
+  newRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  input: {
+    ...typography.body,
+    flex: 1,
+    color: palette.text,
+    backgroundColor: palette.surfaceAlt,
+    borderRadius: radii.md,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+  },
+});
+
+export default AddToHighlightSheet;
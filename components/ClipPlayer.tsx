@@ -0,0 +1,157 @@
+import React, { useCallback, useRef, useState } from 'react';
+import { GestureResponderEvent, LayoutChangeEvent, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import Video, { OnLoadData, OnProgressData, VideoRef } from 'react-native-video';
+import Icon from 'react-native-vector-icons/Ionicons';
+import { ClipType } from '../services/chat';
+import { formatDuration } from '../utils/format';
+
+type Props = {
+  uri: string;
+  type: ClipType;
+  durationMs?: number;
+  active: boolean;
+  onPlay: () => void;
+  onStop: () => void;
+  tint: string;
+};
+
+/**
+ * Inline audio/video clip with play/pause, elapsed time and a tap-or-drag
+ * scrubber. Playback is driven by `active` so the parent can keep a single
+ * clip playing at a time.
+ */
+const ClipPlayer: React.FC<Props> = ({ uri, type, durationMs, active, onPlay, onStop, tint }) => {
+  const videoRef = useRef<VideoRef>(null);
+  const [positionMs, setPositionMs] = useState(0);
+  const [loadedMs, setLoadedMs] = useState(durationMs ?? 0);
+  const [trackWidth, setTrackWidth] = useState(0);
+  const totalMs = loadedMs || durationMs || 0;
+  const fraction = totalMs ? Math.min(positionMs / totalMs, 1) : 0;
+
+  const handleLoad = useCallback((data: OnLoadData) => {
+    if (data.duration) {
+      setLoadedMs(Math.round(data.duration * 1000));
+    }
+  }, []);
+
+  const handleProgress = useCallback((data: OnProgressData) => {
+    setPositionMs(Math.round(data.currentTime * 1000));
+  }, []);
+
+  const handleEnd = useCallback(() => {
+    videoRef.current?.seek(0);
+    setPositionMs(0);
+    onStop();
+  }, [onStop]);
+
+  const seekTo = useCallback(
+    (event: GestureResponderEvent) => {
+      if (!trackWidth || !totalMs) {
+        return;
+      }
+      const ratio = Math.max(0, Math.min(event.nativeEvent.locationX / trackWidth, 1));
+      const nextMs = ratio * totalMs;
+      videoRef.current?.seek(nextMs / 1000);
+      setPositionMs(nextMs);
+    },
+    [totalMs, trackWidth]
+  );
+
+  const handleTrackLayout = useCallback((event: LayoutChangeEvent) => {
+    setTrackWidth(event.nativeEvent.layout.width);
+  }, []);
+
+  const controls = (
+    <View style={styles.controls}>
+      <TouchableOpacity onPress={active ? onStop : onPlay} hitSlop={8}>
+        <Icon name={active ? 'pause' : 'play'} size={22} color={tint} />
+      </TouchableOpacity>
+      <View
+        style={styles.track}
+        onLayout={handleTrackLayout}
+        onStartShouldSetResponder={() => true}
+        onMoveShouldSetResponder={() => true}
+        onResponderGrant={seekTo}
+        onResponderMove={seekTo}
+      >
+        <View style={[styles.trackBase, { backgroundColor: tint }]} />
+        <View style={[styles.trackFill, { backgroundColor: tint, width: `${fraction * 100}%` }]} />
+        <View style={[styles.thumb, { backgroundColor: tint, left: fraction * trackWidth - 6 }]} />
+      </View>
+      <Text style={[styles.time, { color: tint }]}>
+        {formatDuration(active || positionMs ? positionMs : totalMs)}
+      </Text>
+    </View>
+  );
+
+  return (
+    <View style={type === 'video' ? styles.videoContainer : styles.audioContainer}>
+      <Video
+        ref={videoRef}
+        source={{ uri }}
+        style={type === 'video' ? styles.video : styles.hidden}
+        resizeMode="cover"
+        paused={!active}
+        onLoad={handleLoad}
+        onProgress={handleProgress}
+        onEnd={handleEnd}
+        progressUpdateInterval={250}
+      />
+      {controls}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  audioContainer: {
+    width: 220,
+  },
+  videoContainer: {
+    width: 220,
+    gap: 8,
+  },
+  video: {
+    width: 220,
+    height: 280,
+    borderRadius: 12,
+    backgroundColor: '#000',
+  },
+  hidden: {
+    width: 0,
+    height: 0,
+  },
+  controls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  track: {
+    flex: 1,
+    height: 24,
+    justifyContent: 'center',
+  },
+  trackBase: {
+    height: 3,
+    borderRadius: 2,
+    opacity: 0.3,
+  },
+  trackFill: {
+    position: 'absolute',
+    height: 3,
+    borderRadius: 2,
+  },
+  thumb: {
+    position: 'absolute',
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+  },
+  time: {
+    fontSize: 12,
+    fontVariant: ['tabular-nums'],
+    minWidth: 34,
+    textAlign: 'right',
+  },
+});
+
+export default ClipPlayer;
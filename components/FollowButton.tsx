@@ -0,0 +1,59 @@
+import React, { useCallback, useState } from 'react';
+import { Alert, ViewStyle } from 'react-native';
+import Button from './ui/Button';
+import { cancelFollowRequest, FollowState, sendFollowRequest, unfollow } from '../services/follows';
+
+type Props = {
+  uid: string;
+  targetId: string;
+  username: string;
+  state: FollowState;
+  style?: ViewStyle;
+};
+
+const labels: Record<FollowState, { label: string; icon: string; variant: 'primary' | 'secondary' }> = {
+  following: { label: 'Following', icon: 'checkmark-circle', variant: 'secondary' },
+  requested: { label: 'Requested', icon: 'time-outline', variant: 'secondary' },
+  none: { label: 'Follow', icon: 'person-add', variant: 'primary' },
+};
+
+/** Follow / Requested / Following toggle; unfollowing asks for confirmation. */
+const FollowButton: React.FC<Props> = ({ uid, targetId, username, state, style }) => {
+  const [pending, setPending] = useState(false);
+
+  const run = useCallback(async (action: () => Promise<void>, failure: string) => {
+    setPending(true);
+    try {
+      await action();
+    } catch (error: any) {
+      console.error(failure, error);
+      Alert.alert('Error', error?.message ?? failure);
+    } finally {
+      setPending(false);
+    }
+  }, []);
+
+  const handlePress = useCallback(() => {
+    if (state === 'none') {
+      run(() => sendFollowRequest(uid, targetId), 'Could not send follow request.');
+      return;
+    }
+    if (state === 'requested') {
+      run(() => cancelFollowRequest(uid, targetId), 'Could not cancel the request.');
+      return;
+    }
+    Alert.alert(`Unfollow ${username}?`, 'Their posts will leave your feed.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Unfollow',
+        style: 'destructive',
+        onPress: () => run(() => unfollow(uid, targetId), 'Could not unfollow.'),
+      },
+    ]);
+  }, [run, state, targetId, uid, username]);
+
+  const { label, icon, variant } = labels[state];
+  return <Button label={label} variant={variant} icon={icon} onPress={handlePress} disabled={pending} style={style} />;
+};
+
+export default FollowButton;
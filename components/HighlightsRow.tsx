@@ -0,0 +1,73 @@
+import React, { useMemo } from 'react';
+import { View, ViewStyle } from 'react-native';
+import Stories, { StoryAction, StoryAuthor } from './Stories';
+import { useHighlights } from '../hooks/useHighlights';
+import { removeFromHighlight, setHighlightCover } from '../services/highlights';
+
+type Props = {
+  userId: string;
+  currentUserId?: string | null;
+  style?: ViewStyle;
+};
+
+/**
+ * A profile's highlights as a row of circles, played in the Stories viewer.
+ * Each highlight poses as one story author so the viewer needs no special case.
+ */
+const HighlightsRow: React.FC<Props> = ({ userId, currentUserId, style }) => {
+  const { highlights } = useHighlights(userId);
+  const isOwner = !!currentUserId && currentUserId === userId;
+
+  const authors = useMemo<StoryAuthor[]>(
+    () =>
+      highlights.map((highlight) => ({
+        id: highlight.id,
+        userId,
+        username: highlight.name,
+        avatar: highlight.coverUrl ?? null,
+        stories: highlight.items.map((item) => ({
+          id: item.storyId,
+          mediaUrl: item.mediaUrl,
+          mediaType: item.mediaType,
+          caption: item.caption,
+          createdAtMs: item.createdAtMs,
+        })),
+      })),
+    [highlights, userId]
+  );
+
+  const actions = useMemo<StoryAction[] | undefined>(
+    () =>
+      isOwner
+        ? [
+            {
+              label: 'Make cover',
+              onPress: (author, story) => {
+                if (story.mediaType !== 'image') {
+                  throw new Error('Pick a photo story as the cover.');
+                }
+                return setHighlightCover(userId, author.id!, story.mediaUrl);
+              },
+            },
+            {
+              label: 'Remove from highlight',
+              destructive: true,
+              onPress: (author, story) => removeFromHighlight(userId, author.id!, story.id),
+            },
+          ]
+        : undefined,
+    [isOwner, userId]
+  );
+
+  if (!authors.length) {
+    return null;
+  }
+
+  return (
+    <View style={style}>
+      <Stories authors={authors} currentUserId={currentUserId} storyActions={actions} />
+    </View>
+  );
+};
+
+export default HighlightsRow;
@@ -0,0 +1,140 @@
+import React, { useCallback, useState } from 'react';
+import { FlatList, Image, LayoutChangeEvent, StyleSheet, Text, View } from 'react-native';
+import type { ListRenderItem, NativeScrollEvent, NativeSyntheticEvent } from 'react-native';
+import Video from 'react-native-video';
+import { PostMedia } from '../types/post';
+import { palette, spacing } from '../theme/tokens';
+
+type Props = {
+  media: PostMedia[];
+};
+
+const MediaCarousel: React.FC<Props> = ({ media }) => {
+  const [width, setWidth] = useState(0);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const handleLayout = useCallback((event: LayoutChangeEvent) => {
+    setWidth(event.nativeEvent.layout.width);
+  }, []);
+
+  const handleMomentumEnd = useCallback(
+    (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+      if (!width) {
+        return;
+      }
+      const index = Math.round(event.nativeEvent.contentOffset.x / width);
+      setActiveIndex(Math.max(0, Math.min(index, media.length - 1)));
+    },
+    [media.length, width]
+  );
+
+  const renderItem: ListRenderItem<PostMedia> = useCallback(
+    ({ item, index }) =>
+      item.type === 'video' ? (
+        <Video
+          source={{ uri: item.url }}
+          style={[styles.media, { width }]}
+          resizeMode="cover"
+          paused={index !== activeIndex}
+          repeat
+        />
+      ) : (
+        <Image source={{ uri: item.url }} style={[styles.media, { width }]} />
+      ),
+    [activeIndex, width]
+  );
+
+  if (!media.length) {
+    return null;
+  }
+
+  if (media.length === 1) {
+    const [single] = media;
+    return single.type === 'video' ? (
+      <Video source={{ uri: single.url }} style={styles.single} resizeMode="cover" />
+    ) : (
+      <Image source={{ uri: single.url }} style={styles.single} />
+    );
+  }
+
+  return (
+    <View style={styles.container} onLayout={handleLayout}>
+      {width ? (
+        <FlatList
+          data={media}
+          horizontal
+          pagingEnabled
+          showsHorizontalScrollIndicator={false}
+          keyExtractor={(item, index) => `${item.url}-${index}`}
+          renderItem={renderItem}
+          onMomentumScrollEnd={handleMomentumEnd}
+          getItemLayout={(_, index) => ({ length: width, offset: width * index, index })}
+        />
+      ) : (
+        <View style={styles.single} />
+      )}
+      <View style={styles.counter}>
+        <Text style={styles.counterText}>
+          {activeIndex + 1}/{media.length}
+        </Text>
+      </View>
+      <View style={styles.dots}>
+        {media.map((item, index) => (
+          <View key={`${item.url}-${index}`} style={[styles.dot, index === activeIndex && styles.dotActive]} />
+        ))}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+    borderRadius: 14,
+    overflow: 'hidden',
+  },
+  single: {
+    width: '100%',
+    borderRadius: 14,
+    aspectRatio: 1,
+    backgroundColor: palette.surface,
+  },
+  media: {
+    aspectRatio: 1,
+    backgroundColor: palette.surface,
+  },
+  counter: {
+    position: 'absolute',
+    top: spacing.sm,
+    right: spacing.sm,
+    paddingHorizontal: spacing.sm,
+    paddingVertical: 2,
+    borderRadius: 999,
+    backgroundColor: palette.overlay,
+  },
+  counterText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  dots: {
+    position: 'absolute',
+    bottom: spacing.sm,
+    left: 0,
+    right: 0,
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 6,
+  },
+  dot: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: 'rgba(255,255,255,0.45)',
+  },
+  dotActive: {
+    backgroundColor: '#fff',
+  },
+});
+
+export default MediaCarousel;
@@ -0,0 +1,118 @@
+import React from 'react';
+import { Modal, Pressable, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import Icon from 'react-native-vector-icons/Ionicons';
+import { REACTION_EMOJIS } from '../services/chat';
+import { palette, radii, spacing } from '../theme/tokens';
+
+type Props = {
+  visible: boolean;
+  currentReaction?: string;
+  canEdit: boolean;
+  canDelete: boolean;
+  onClose: () => void;
+  onReact: (emoji: string) => void;
+  onReply: () => void;
+  onEdit: () => void;
+  onDelete: () => void;
+};
+
+const MessageActionsSheet: React.FC<Props> = ({
+  visible,
+  currentReaction,
+  canEdit,
+  canDelete,
+  onClose,
+  onReact,
+  onReply,
+  onEdit,
+  onDelete,
+}) => {
+  const actions = [
+    { key: 'reply', label: 'Reply', icon: 'arrow-undo-outline', onPress: onReply, show: true },
+    { key: 'edit', label: 'Edit', icon: 'create-outline', onPress: onEdit, show: canEdit },
+    { key: 'delete', label: 'Delete for everyone', icon: 'trash-outline', onPress: onDelete, show: canDelete },
+  ].filter((action) => action.show);
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <Pressable style={styles.backdrop} onPress={onClose}>
+        <Pressable style={styles.sheet}>
+          <View style={styles.reactions}>
+            {REACTION_EMOJIS.map((emoji) => (
+              <TouchableOpacity
+                key={emoji}
+                style={[styles.emoji, currentReaction === emoji && styles.emojiSelected]}
+                onPress={() => onReact(emoji)}
+              >
+                <Text style={styles.emojiText}>{emoji}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          {actions.map((action) => (
+            <TouchableOpacity key={action.key} style={styles.action} onPress={action.onPress}>
+              <Icon
+                name={action.icon}
+                size={20}
+                color={action.key === 'delete' ? palette.danger : palette.text}
+              />
+              <Text style={[styles.actionLabel, action.key === 'delete' && styles.destructive]}>
+                {action.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: palette.overlay,
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: palette.surface,
+    borderTopLeftRadius: radii.lg,
+    borderTopRightRadius: radii.lg,
+    padding: spacing.lg,
+    paddingBottom: spacing.xxl,
+    gap: spacing.sm,
+  },
+  reactions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: spacing.sm,
+  },
+  emoji: {
+    width: 48,
+    height: 48,
+    borderRadius: radii.pill,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: palette.surfaceAlt,
+  },
+  emojiSelected: {
+    borderWidth: 2,
+    borderColor: palette.primary,
+  },
+  emojiText: {
+    fontSize: 24,
+  },
+  action: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+    paddingVertical: spacing.md,
+  },
+  actionLabel: {
+    color: palette.text,
+    fontSize: 16,
+  },
+  destructive: {
+    color: palette.danger,
+  },
+});
+
+export default MessageActionsSheet;
@@ -0,0 +1,585 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Alert,
+  Animated,
+  Modal,
+  Pressable,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import Icon from 'react-native-vector-icons/Ionicons';
+import Share from 'react-native-share';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import {
+  collection,
+  deleteDoc,
+  doc,
+  limit,
+  onSnapshot,
+  orderBy,
+  query,
+  serverTimestamp,
+  updateDoc,
+} from 'firebase/firestore';
+import { db } from '../services/firebase';
+import Surface from './ui/Surface';
+import Avatar from './ui/Avatar';
+import MediaCarousel from './MediaCarousel';
+import { getPostMedia } from '../services/posts';
+import { addComment, PostComment } from '../services/comments';
+import { togglePostLike } from '../services/likes';
+import { savedPostDoc, savePost, unsavePost } from '../services/saved';
+import { useProfiles } from '../hooks/useProfiles';
+import { palette, spacing } from '../theme/tokens';
+import { Post } from '../types/post';
+import { formatRelativeTime } from '../utils/format';
+import { RootStackParamList } from '../types/navigation';
+import { POST_LINK_BASE_URL } from '../navigation/linking';
+
+const DOUBLE_TAP_MS = 300;
+
+export type PostCardProps = {
+  post: Post;
+  currentUserId: string;
+  profile?: { username?: string; photoUrl?: string };
+  profiles?: Record<string, { username?: string; photoUrl?: string }>;
+};
+
+const PostCard: React.FC<PostCardProps> = ({ post, currentUserId, profile, profiles }) => {
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+  const [liked, setLiked] = useState(false);
+  const [likePending, setLikePending] = useState(false);
+  const [showBurst, setShowBurst] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [savePending, setSavePending] = useState(false);
+  const [comments, setComments] = useState<PostComment[]>([]);
+  const [commentText, setCommentText] = useState('');
+  const [sendingComment, setSendingComment] = useState(false);
+  const [editModalVisible, setEditModalVisible] = useState(false);
+  const [captionDraft, setCaptionDraft] = useState(post.caption ?? '');
+  const [updatingCaption, setUpdatingCaption] = useState(false);
+  const [deletingPost, setDeletingPost] = useState(false);
+  const [sharingPost, setSharingPost] = useState(false);
+  const cardAnim = useRef(new Animated.Value(0)).current;
+  const likeScale = useRef(new Animated.Value(1)).current;
+  const lastMediaTapRef = useRef(0);
+
+  useEffect(() => {
+    Animated.timing(cardAnim, {
+      toValue: 1,
+      duration: 350,
+      useNativeDriver: true,
+    }).start();
+  }, [cardAnim]);
+
+  useEffect(() => {
+    if (!currentUserId) {
+      return;
+    }
+    const likeRef = doc(db, 'posts', post.id, 'likes', currentUserId);
+    const unsubscribe = onSnapshot(likeRef, (snap) => setLiked(snap.exists()));
+    return unsubscribe;
+  }, [post.id, currentUserId]);
+
+  useEffect(() => {
+    if (!currentUserId) {
+      return;
+    }
+    return onSnapshot(savedPostDoc(currentUserId, post.id), (snap) => setSaved(snap.exists()));
+  }, [post.id, currentUserId]);
+
+  useEffect(() => {
+    const commentsRef = collection(db, 'posts', post.id, 'comments');
+    const q = query(commentsRef, orderBy('createdAt', 'desc'), limit(3));
+    const unsubscribe = onSnapshot(q, (snapshot) => {
+      const items = snapshot.docs.map((docSnap) => {
+        const data = docSnap.data() as Omit<PostComment, 'id'>;
+        return { ...data, id: docSnap.id };
+      });
+      setComments(items);
+    });
+    return unsubscribe;
+  }, [post.id]);
+
+  useEffect(() => {
+    setCaptionDraft(post.caption ?? '');
+  }, [post.caption]);
+
+  const popLike = useCallback(
+    (hold = 0, onDone?: () => void) => {
+      Animated.sequence([
+        Animated.timing(likeScale, { toValue: 1.2, duration: 120, useNativeDriver: true }),
+        Animated.delay(hold),
+        Animated.spring(likeScale, { toValue: 1, useNativeDriver: true }),
+      ]).start(onDone);
+    },
+    [likeScale]
+  );
+
+  const toggleLike = useCallback(async () => {
+    if (!currentUserId || likePending) {
+      return;
+    }
+
+    setLikePending(true);
+    try {
+      await togglePostLike(post.id, currentUserId);
+      popLike();
+    } catch (error) {
+      console.error('Error toggling like', error);
+      Alert.alert('Error', 'Unable to update like right now.');
+    } finally {
+      setLikePending(false);
+    }
+  }, [currentUserId, likePending, popLike, post.id]);
+
+  // A second tap on the media within DOUBLE_TAP_MS likes the post; it never unlikes.
+  const handleMediaPress = useCallback(() => {
+    const now = Date.now();
+    if (now - lastMediaTapRef.current > DOUBLE_TAP_MS) {
+      lastMediaTapRef.current = now;
+      return;
+    }
+    lastMediaTapRef.current = 0;
+    if (!currentUserId) {
+      return;
+    }
+    setShowBurst(true);
+    popLike(350, () => setShowBurst(false));
+    if (liked || likePending) {
+      return;
+    }
+    setLikePending(true);
+    togglePostLike(post.id, currentUserId, true)
+      .catch((error) => {
+        console.error('Error liking post', error);
+        Alert.alert('Error', 'Unable to update like right now.');
+      })
+      .finally(() => setLikePending(false));
+  }, [currentUserId, liked, likePending, popLike, post.id]);
+
+  const toggleSave = useCallback(async () => {
+    if (!currentUserId || savePending) {
+      return;
+    }
+    setSavePending(true);
+    try {
+      await (saved ? unsavePost(currentUserId, post.id) : savePost(currentUserId, post.id));
+    } catch (error) {
+      console.error('Error toggling save', error);
+      Alert.alert('Error', 'Unable to update Saved right now.');
+    } finally {
+      setSavePending(false);
+    }
+  }, [currentUserId, post.id, saved, savePending]);
+
+  const openProfile = useCallback(() => {
+    navigation.navigate('UserProfile', { userId: post.userId });
+  }, [navigation, post.userId]);
+
+  const openLikes = useCallback(() => {
+    navigation.navigate('Likes', { postId: post.id });
+  }, [navigation, post.id]);
+
+  const submitComment = useCallback(async () => {
+    const trimmed = commentText.trim();
+    if (!currentUserId || !trimmed || sendingComment) {
+      return;
+    }
+
+    setSendingComment(true);
+
+    try {
+      await addComment(post.id, currentUserId, trimmed);
+      setCommentText('');
+    } catch (error) {
+      console.error('Error adding comment', error);
+      Alert.alert('Error', 'Unable to post comment right now.');
+    } finally {
+      setSendingComment(false);
+    }
+  }, [commentText, currentUserId, post.id, sendingComment]);
+
+  const openComments = useCallback(() => {
+    navigation.navigate('Comments', { postId: post.id, postOwnerId: post.userId });
+  }, [navigation, post.id, post.userId]);
+
+  const sharePost = useCallback(async () => {
+    if (sharingPost) {
+      return;
+    }
+    const postTitle = post.title?.trim() || post.caption?.trim() || 'SocialGram post';
+    const deepLink = `${POST_LINK_BASE_URL}/${post.id}`;
+    setSharingPost(true);
+    try {
+      await Share.open({
+        title: 'Share post',
+        message: `${postTitle}\n${deepLink}`,
+        url: deepLink,
+        failOnCancel: false,
+      });
+    } catch (error: any) {
+      const errorMessage = error?.message || error?.error;
+      const cancelled = typeof errorMessage === 'string' && errorMessage.includes('User did not share');
+      if (!cancelled) {
+        console.error('Failed to share post', error);
+        Alert.alert('Share failed', 'Unable to share this post right now.');
+      }
+    } finally {
+      setSharingPost(false);
+    }
+  }, [post.caption, post.id, post.title, sharingPost]);
+
+  const animatedCardStyle = useMemo(
+    () => ({
+      opacity: cardAnim,
+      transform: [
+        {
+          scale: cardAnim.interpolate({
+            inputRange: [0, 1],
+            outputRange: [0.95, 1],
+          }),
+        },
+      ],
+    }),
+    [cardAnim]
+  );
+
+  const handleDeletePost = useCallback(async () => {
+    if (post.userId !== currentUserId) {
+      return;
+    }
+    setDeletingPost(true);
+    try {
+      await deleteDoc(doc(db, 'posts', post.id));
+    } catch (error) {
+      console.error('Failed to delete post', error);
+      Alert.alert('Delete failed', 'Unable to delete this post right now.');
+    } finally {
+      setDeletingPost(false);
+    }
+  }, [currentUserId, post.id, post.userId]);
+
+  const confirmDelete = useCallback(() => {
+    Alert.alert('Delete post?', 'This action cannot be undone.', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Delete', style: 'destructive', onPress: handleDeletePost },
+    ]);
+  }, [handleDeletePost]);
+
+  const handleSaveCaption = useCallback(async () => {
+    if (post.userId !== currentUserId) {
+      return;
+    }
+    const trimmed = captionDraft.trim();
+    setUpdatingCaption(true);
+    try {
+      await updateDoc(doc(db, 'posts', post.id), {
+        caption: trimmed,
+        updatedAt: serverTimestamp(),
+      });
+      setEditModalVisible(false);
+    } catch (error) {
+      console.error('Failed to update caption', error);
+      Alert.alert('Update failed', 'Unable to save your caption right now.');
+    } finally {
+      setUpdatingCaption(false);
+    }
+  }, [captionDraft, currentUserId, post.id, post.userId]);
+
+  const openPostMenu = useCallback(() => {
+    if (post.userId !== currentUserId) {
+      Alert.alert('Not available', 'You can only manage your own posts.');
+      return;
+    }
+
+    Alert.alert('Post options', undefined, [
+      { text: 'Edit caption', onPress: () => setEditModalVisible(true) },
+      { text: 'Delete post', style: 'destructive', onPress: confirmDelete },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  }, [confirmDelete, currentUserId, post.userId]);
+
+  // The burst rides the same likeScale animation as the heart button.
+  const burstStyle = useMemo(
+    () => ({
+      opacity: likeScale.interpolate({ inputRange: [1, 1.2], outputRange: [0, 0.9], extrapolate: 'clamp' }),
+      transform: [
+        {
+          scale: likeScale.interpolate({ inputRange: [1, 1.2], outputRange: [0.4, 1], extrapolate: 'clamp' }),
+        },
+      ],
+    }),
+    [likeScale]
+  );
+
+  // Authors outside the `profiles` the parent passes in are looked up on demand.
+  const commentAuthors = useProfiles(
+    comments.map((comment) => comment.userId).filter((userId) => !profiles?.[userId])
+  );
+  const postMedia = useMemo(() => getPostMedia(post), [post]);
+  const displayName = profile?.username || post.username || 'Unknown user';
+  const avatarUri = profile?.photoUrl || post.userPhotoUrl;
+
+  return (
+    <Animated.View style={animatedCardStyle}>
+      <Surface style={styles.postCard} padding="lg">
+        <View style={styles.postHeader}>
+          <TouchableOpacity style={styles.headerLeft} onPress={openProfile} activeOpacity={0.8}>
+            <Avatar label={displayName} uri={avatarUri} size={42} />
+            <View>
+              <Text style={styles.postAuthor}>{displayName}</Text>
+              <Text style={styles.timestamp}>{formatRelativeTime(post.createdAt)}</Text>
+            </View>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={openPostMenu} disabled={deletingPost}>
+            <Icon name="ellipsis-horizontal" size={20} color={palette.textMuted} />
+          </TouchableOpacity>
+        </View>
+
+        <Pressable onPress={handleMediaPress}>
+          <MediaCarousel media={postMedia} />
+          {showBurst ? (
+            <Animated.View pointerEvents="none" style={[styles.likeBurst, burstStyle]}>
+              <Icon name="heart" size={96} color="#fff" />
+            </Animated.View>
+          ) : null}
+        </Pressable>
+
+        {post.caption ? <Text style={styles.caption}>{post.caption}</Text> : null}
+
+        <View style={styles.postActions}>
+          <View style={styles.actionRow}>
+            <Animated.View style={{ transform: [{ scale: likeScale }] }}>
+              <TouchableOpacity onPress={toggleLike} disabled={likePending}>
+                <Icon 
+                  name={liked ? 'heart' : 'heart-outline'} 
+                  size={24} 
+                  color={liked ? palette.danger : palette.textMuted} 
+                />
+              </TouchableOpacity>
+            </Animated.View>
+            <TouchableOpacity onPress={openLikes} disabled={!post.likesCount} hitSlop={8}>
+              <Text style={styles.countText}>{post.likesCount ?? 0}</Text>
+            </TouchableOpacity>
+          </View>
+          <TouchableOpacity style={styles.actionRow} onPress={openComments}>
+            <Icon name="chatbubble-outline" size={22} color={palette.textMuted} />
+            <Text style={styles.countText}>{post.commentsCount ?? 0}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.actionRow} onPress={sharePost} disabled={sharingPost}>
+            <Icon name="paper-plane-outline" size={22} color={palette.textMuted} />
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.actionRow} onPress={toggleSave} disabled={savePending}>
+            <Icon
+              name={saved ? 'bookmark' : 'bookmark-outline'}
+              size={22}
+              color={saved ? palette.text : palette.textMuted}
+            />
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.commentInputRow}>
+          <TextInput
+            style={styles.commentInput}
+            placeholder="Add a comment"
+            placeholderTextColor={palette.textMuted}
+            value={commentText}
+            onChangeText={setCommentText}
+            editable={!sendingComment}
+          />
+          <TouchableOpacity onPress={submitComment} disabled={sendingComment} style={styles.sendButton}>
+            <Icon name="send" size={18} color={sendingComment ? palette.textDisabled : palette.primary} />
+          </TouchableOpacity>
+        </View>
+
+        {comments.map((comment) => (
+          <View key={comment.id} style={styles.commentRow}>
+            <Text style={styles.commentAuthor}>
+              {comment.userId === currentUserId
+                ? 'You'
+                : profiles?.[comment.userId]?.username ||
+                  commentAuthors[comment.userId]?.username ||
+                  'Unknown user'}
+            </Text>
+            <Text style={styles.commentBody}>{comment.text}</Text>
+          </View>
+        ))}
+
+        {(post.commentsCount ?? 0) > comments.length ? (
+          <TouchableOpacity onPress={openComments}>
+            <Text style={styles.viewAllComments}>View all {post.commentsCount} comments</Text>
+          </TouchableOpacity>
+        ) : null}
+      </Surface>
+
+      <Modal visible={editModalVisible} animationType="fade" transparent>
+        <View style={styles.modalBackdrop}>
+          <View style={styles.modalCard}>
+            <Text style={styles.modalTitle}>Edit caption</Text>
+            <TextInput
+              value={captionDraft}
+              onChangeText={setCaptionDraft}
+              multiline
+              style={styles.modalInput}
+              placeholder="Update your caption"
+              placeholderTextColor={palette.textMuted}
+            />
+            <View style={styles.modalButtons}>
+              <TouchableOpacity onPress={() => setEditModalVisible(false)} disabled={updatingCaption}>
+                <Text style={styles.modalCancel}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={handleSaveCaption} disabled={updatingCaption}>
+                <Text style={[styles.modalSave, updatingCaption && styles.disabledSend]}>
+                  {updatingCaption ? 'Saving…' : 'Save'}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </Animated.View>
+  );
+};
+
+const styles = StyleSheet.create({
+  postCard: {
+    marginHorizontal: spacing.lg,
+    marginTop: spacing.lg,
+    gap: spacing.md,
+  },
+  postHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  headerLeft: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+  },
+  postAuthor: {
+    color: palette.text,
+    fontWeight: '600',
+    fontSize: 16,
+  },
+  timestamp: {
+    color: palette.textMuted,
+    fontSize: 12,
+  },
+  caption: {
+    color: palette.text,
+    fontSize: 15,
+  },
+  postActions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  actionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  actionLabel: {
+    color: palette.textMuted,
+    fontSize: 18,
+  },
+  activeAction: {
+    color: palette.primary,
+  },
+  likeBurst: {
+    ...StyleSheet.absoluteFillObject,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  countText: {
+    color: palette.textMuted,
+    fontSize: 14,
+  },
+  commentInputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  commentInput: {
+    flex: 1,
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+    borderRadius: 999,
+    backgroundColor: palette.surfaceAlt,
+    color: palette.text,
+    fontSize: 14,
+  },
+  sendButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: palette.surfaceElevated,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  commentRow: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+  },
+  commentAuthor: {
+    color: palette.accent,
+    fontWeight: '600',
+  },
+  commentBody: {
+    color: palette.text,
+  },
+  viewAllComments: {
+    color: palette.textMuted,
+    fontSize: 13,
+  },
+  modalBackdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.45)',
+    justifyContent: 'center',
+    padding: spacing.lg,
+  },
+  modalCard: {
+    backgroundColor: palette.surface,
+    borderRadius: 16,
+    padding: spacing.lg,
+    gap: spacing.md,
+  },
+  modalTitle: {
+    color: palette.text,
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  modalInput: {
+    minHeight: 120,
+    borderRadius: 12,
+    backgroundColor: palette.surfaceAlt,
+    padding: spacing.md,
+    color: palette.text,
+    textAlignVertical: 'top',
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: spacing.lg,
+  },
+  modalCancel: {
+    color: palette.textMuted,
+    fontSize: 16,
+  },
+  modalSave: {
+    color: palette.accent,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  disabledSend: {
+    opacity: 0.5,
+  },
+});
+
+export default PostCard;
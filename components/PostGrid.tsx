@@ -0,0 +1,65 @@
+import React from 'react';
+import { Image, StyleSheet, TouchableOpacity, View } from 'react-native';
+import Icon from 'react-native-vector-icons/Ionicons';
+import { getPostMedia } from '../services/posts';
+import { Post } from '../types/post';
+import { palette } from '../theme/tokens';
+
+type Props = {
+  posts: Post[];
+  onPressPost?: (post: Post) => void;
+  onLongPressPost?: (post: Post) => void;
+};
+
+const COLUMNS = 3;
+const GAP = 2;
+
+/** Three-column square thumbnails. Rendered as plain views so it can sit inside a ScrollView. */
+const PostGrid: React.FC<Props> = ({ posts, onPressPost, onLongPressPost }) => (
+  <View style={styles.grid}>
+    {posts.map((post) => {
+      const media = getPostMedia(post);
+      const cover = media[0];
+      return (
+        <TouchableOpacity
+          key={post.id}
+          style={styles.cell}
+          activeOpacity={0.85}
+          onPress={onPressPost ? () => onPressPost(post) : undefined}
+          onLongPress={onLongPressPost ? () => onLongPressPost(post) : undefined}
+        >
+          {cover?.type === 'image' ? <Image source={{ uri: cover.url }} style={styles.image} /> : null}
+          {cover?.type === 'video' || media.length > 1 ? (
+            <View style={styles.badge}>
+              <Icon name={media.length > 1 ? 'copy' : 'play'} size={14} color="#fff" />
+            </View>
+          ) : null}
+        </TouchableOpacity>
+      );
+    })}
+  </View>
+);
+
+const styles = StyleSheet.create({
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: GAP,
+  },
+  cell: {
+    width: `${(100 - COLUMNS) / COLUMNS}%`,
+    aspectRatio: 1,
+    backgroundColor: palette.surfaceAlt,
+    overflow: 'hidden',
+  },
+  image: {
+    ...StyleSheet.absoluteFillObject,
+  },
+  badge: {
+    position: 'absolute',
+    top: 6,
+    right: 6,
+  },
+});
+
+export default PostGrid;
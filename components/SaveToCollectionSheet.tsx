@@ -0,0 +1,183 @@
+import React, { useCallback, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import Icon from 'react-native-vector-icons/Ionicons';
+import {
+  createSavedCollection,
+  MAX_COLLECTION_NAME_LENGTH,
+  SavedCollection,
+  setPostInCollection,
+  unsavePost,
+} from '../services/saved';
+import { palette, radii, spacing, typography } from '../theme/tokens';
+
+type Props = {
+  visible: boolean;
+  uid: string;
+  postId: string;
+  collections: SavedCollection[];
+  selectedIds: string[];
+  onClose: () => void;
+};
+
+const SaveToCollectionSheet: React.FC<Props> = ({ visible, uid, postId, collections, selectedIds, onClose }) => {
+  const [name, setName] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const run = useCallback(async (action: () => Promise<unknown>, failure: string) => {
+    setBusy(true);
+    try {
+      await action();
+      return true;
+    } catch (error: any) {
+      console.error(failure, error);
+      Alert.alert('Error', error?.message ?? failure);
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  }, []);
+
+  const createAndAdd = useCallback(async () => {
+    const added = await run(async () => {
+      const collectionId = await createSavedCollection(uid, name);
+      await setPostInCollection(uid, postId, collectionId, true);
+    }, 'Could not create the collection.');
+    if (added) {
+      setName('');
+    }
+  }, [name, postId, run, uid]);
+
+  const removeFromSaved = useCallback(async () => {
+    if (await run(() => unsavePost(uid, postId), 'Could not remove this post from Saved.')) {
+      onClose();
+    }
+  }, [onClose, postId, run, uid]);
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <Pressable style={styles.backdrop} onPress={onClose}>
+        <Pressable style={styles.sheet}>
+          <View style={styles.titleRow}>
+            <Text style={styles.title}>Save to collection</Text>
+            {busy ? <ActivityIndicator color={palette.primary} /> : null}
+          </View>
+          <ScrollView style={styles.list}>
+            {collections.map((entry) => {
+              const checked = selectedIds.includes(entry.id);
+              return (
+                <TouchableOpacity
+                  key={entry.id}
+                  style={styles.row}
+                  disabled={busy}
+                  onPress={() =>
+                    run(
+                      () => setPostInCollection(uid, postId, entry.id, !checked),
+                      'Could not update the collection.'
+                    )
+                  }
+                >
+                  <Text style={styles.rowLabel} numberOfLines={1}>
+                    {entry.name}
+                  </Text>
+                  <Icon
+                    name={checked ? 'checkmark-circle' : 'ellipse-outline'}
+                    size={22}
+                    color={checked ? palette.primary : palette.textMuted}
+                  />
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+          <View style={styles.newRow}>
+            <TextInput
+              style={styles.input}
+              value={name}
+              onChangeText={setName}
+              placeholder="New collection"
+              placeholderTextColor={palette.textMuted}
+              maxLength={MAX_COLLECTION_NAME_LENGTH}
+              editable={!busy}
+            />
+            <TouchableOpacity onPress={createAndAdd} disabled={busy || !name.trim()} hitSlop={8}>
+              <Icon name="add-circle" size={28} color={name.trim() ? palette.primary : palette.textDisabled} />
+            </TouchableOpacity>
+          </View>
+          <TouchableOpacity style={styles.row} onPress={removeFromSaved} disabled={busy}>
+            <Text style={[styles.rowLabel, styles.destructive]}>Remove from Saved</Text>
+            <Icon name="bookmark" size={20} color={palette.danger} />
+          </TouchableOpacity>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: palette.overlay,
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: palette.surface,
+    borderTopLeftRadius: radii.lg,
+    borderTopRightRadius: radii.lg,
+    padding: spacing.lg,
+    paddingBottom: spacing.xxl,
+    gap: spacing.sm,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  title: {
+    color: palette.text,
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  list: {
+    maxHeight: 280,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+    paddingVertical: spacing.md,
+  },
+  rowLabel: {
+    flex: 1,
+    color: palette.text,
+    fontSize: 16,
+  },
+  destructive: {
+    color: palette.danger,
+  },
+  newRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  input: {
+    ...typography.body,
+    flex: 1,
+    color: palette.text,
+    backgroundColor: palette.surfaceAlt,
+    borderRadius: radii.md,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+  },
+});
+
+export default SaveToCollectionSheet;
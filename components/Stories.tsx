@@ -2,56 +2,129 @@ import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import {
   ActivityIndicator,
   Alert,
+  AlertButton,
   Animated,
   FlatList,
   Image,
+  Keyboard,
+  KeyboardAvoidingView,
   Modal,
+  PanResponder,
+  Platform,
   StyleSheet,
   Text,
+  TextInput,
   TouchableOpacity,
   View,
   useWindowDimensions,
 } from 'react-native';
 import type { ListRenderItem } from 'react-native';
+import Video, { OnBufferData, OnLoadData, OnProgressData } from 'react-native-video';
 import Icon from 'react-native-vector-icons/Ionicons';
 import Avatar from './ui/Avatar';
-import { palette, spacing } from '../theme/tokens';
+import AddToHighlightSheet from './AddToHighlightSheet';
+import StoryViewersSheet from './StoryViewersSheet';
+import { REACTION_EMOJIS } from '../services/chat';
+import { HighlightItem } from '../services/highlights';
+import { palette, radii, spacing } from '../theme/tokens';
+import { PostMediaType } from '../types/post';
 
 export type StoryItem = {
   id: string;
-  imageUrl: string;
+  mediaUrl: string;
+  mediaType: PostMediaType;
   caption?: string;
   createdAtMs?: number;
+  viewsCount?: number;
 };
 
 export type StoryAuthor = {
+  // Tells apart several entries by one user, such as highlights. Defaults to `userId`.
+  id?: string;
   userId: string;
   username: string;
   avatar?: string | null;
   stories: StoryItem[];
 };
 
+// An extra owner action in the viewer's menu.
+export type StoryAction = {
+  label: string;
+  destructive?: boolean;
+  onPress: (author: StoryAuthor, story: StoryItem) => Promise<void> | void;
+};
+
 type Props = {
   authors: StoryAuthor[];
   currentUserId?: string | null;
   onDeleteStory?: (storyId: string) => Promise<void> | void;
+  onOpenProfile?: (userId: string) => void;
+  // Sends a reply, or a quick reaction when `reaction` is set, to the story's author.
+  onReplyToStory?: (author: StoryAuthor, story: StoryItem, text: string, reaction: boolean) => Promise<void>;
+  // Called each time someone else's story is shown.
+  onViewStory?: (storyId: string) => void;
+  // Owners see who viewed each story.
+  showViewers?: boolean;
+  // Owners can copy stories into highlights.
+  allowHighlights?: boolean;
+  storyActions?: StoryAction[];
 };
 
 const STORY_DURATION_MS = 5000;
+const REPLY_NOTICE_MS = 2000;
+// A press held longer than this pauses the story instead of counting as a tap.
+const HOLD_DELAY_MS = 200;
+const SWIPE_AUTHOR_DISTANCE = 60;
+const SWIPE_CLOSE_DISTANCE = 120;
 
-const Stories: React.FC<Props> = ({ authors, currentUserId, onDeleteStory }) => {
+const Stories: React.FC<Props> = ({
+  authors,
+  currentUserId,
+  onDeleteStory,
+  onOpenProfile,
+  onReplyToStory,
+  onViewStory,
+  showViewers = false,
+  allowHighlights = false,
+  storyActions,
+}) => {
   const [activeAuthorIndex, setActiveAuthorIndex] = useState<number | null>(null);
   const [activeStoryIndex, setActiveStoryIndex] = useState(0);
-  const [imageLoading, setImageLoading] = useState(false);
-  const [imageFailed, setImageFailed] = useState(false);
+  const [mediaLoading, setMediaLoading] = useState(false);
+  const [mediaFailed, setMediaFailed] = useState(false);
+  const [buffering, setBuffering] = useState(false);
+  // Kept across stories, like the rest of the app's players.
+  const [muted, setMuted] = useState(false);
+  const videoDurationMs = useRef(0);
   const [deletingStory, setDeletingStory] = useState(false);
+  const [replyText, setReplyText] = useState('');
+  const [replyFocused, setReplyFocused] = useState(false);
+  const [sendingReply, setSendingReply] = useState(false);
+  const [replyNotice, setReplyNotice] = useState<string | null>(null);
+  const [held, setHeld] = useState(false);
+  const [viewersStoryId, setViewersStoryId] = useState<string | null>(null);
+  const [highlightItem, setHighlightItem] = useState<HighlightItem | null>(null);
+  // Bumped to play the current story again from the start.
+  const [replayCount, setReplayCount] = useState(0);
   const progress = useRef(new Animated.Value(0)).current;
+  const dragY = useRef(new Animated.Value(0)).current;
+  const heldRef = useRef(false);
+  const holdTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
   const { width } = useWindowDimensions();
   const activeAuthor = useMemo(
     () => (activeAuthorIndex !== null ? authors[activeAuthorIndex] : null),
     [activeAuthorIndex, authors]
   );
   const activeStory = useMemo(() => activeAuthor?.stories[activeStoryIndex] ?? null, [activeAuthor, activeStoryIndex]);
+  const activeStoryId = activeStory?.id;
+  const activeAuthorId = activeAuthor?.userId;
+  const isOwnStory = !!activeAuthorId && activeAuthorId === currentUserId;
+  // Videos drive the progress bar from playback; a video that fails falls back to the timer.
+  const playingVideo = activeStory?.mediaType === 'video' && !mediaFailed;
+  const canReply = !!onReplyToStory && !!currentUserId && !!activeAuthor && !isOwnStory;
+  // The story holds still while pressed, while a reply is being typed or sent, or while a sheet is open.
+  const paused = held || replyFocused || sendingReply || !!viewersStoryId || !!highlightItem;
+  const hasOwnerMenu = isOwnStory && (allowHighlights || !!storyActions?.length || !!onDeleteStory);
 
   const closeStory = useCallback(() => {
     setActiveAuthorIndex(null);
@@ -85,37 +158,178 @@ const Stories: React.FC<Props> = ({ authors, currentUserId, onDeleteStory }) =>
     setActiveStoryIndex(0);
   }, [activeAuthorIndex, activeStoryIndex, authors, closeStory]);
 
-  useEffect(() => {
-    if (!activeStory) {
-      progress.stopAnimation();
-      progress.setValue(0);
-      setImageLoading(false);
-      setImageFailed(false);
-      setDeletingStory(false);
+  /** Steps back a story; from an author's first story, to the previous author. */
+  const previousStory = useCallback(() => {
+    if (activeAuthorIndex === null) {
+      return;
+    }
+    if (activeStoryIndex > 0) {
+      setActiveStoryIndex(activeStoryIndex - 1);
+      return;
+    }
+    if (activeAuthorIndex > 0) {
+      setActiveAuthorIndex(activeAuthorIndex - 1);
+      setActiveStoryIndex(0);
       return;
     }
+    setReplayCount((count) => count + 1);
+  }, [activeAuthorIndex, activeStoryIndex]);
 
-    setImageFailed(false);
-    setImageLoading(true);
-    setDeletingStory(false);
+  const jumpAuthor = useCallback(
+    (direction: 1 | -1) => {
+      if (activeAuthorIndex === null) {
+        return;
+      }
+      const nextAuthorIndex = activeAuthorIndex + direction;
+      if (nextAuthorIndex >= authors.length) {
+        closeStory();
+        return;
+      }
+      if (nextAuthorIndex < 0) {
+        setActiveStoryIndex(0);
+        setReplayCount((count) => count + 1);
+        return;
+      }
+      setActiveAuthorIndex(nextAuthorIndex);
+      setActiveStoryIndex(0);
+    },
+    [activeAuthorIndex, authors.length, closeStory]
+  );
 
+  useEffect(() => {
+    progress.stopAnimation();
     progress.setValue(0);
-    const animation = Animated.timing(progress, {
-      toValue: 1,
-      duration: STORY_DURATION_MS,
-      useNativeDriver: false,
-    });
+    setReplyText('');
+    setReplyNotice(null);
+    setDeletingStory(false);
+  }, [activeStoryId, progress, replayCount]);
 
-    animation.start(({ finished }) => {
-      if (finished) {
-        advanceStory();
-      }
+  useEffect(() => {
+    if (activeStoryId && activeAuthorId && activeAuthorId !== currentUserId) {
+      onViewStory?.(activeStoryId);
+    }
+  }, [activeAuthorId, activeStoryId, currentUserId, onViewStory]);
+
+  useEffect(() => {
+    setMediaFailed(false);
+    setMediaLoading(!!activeStoryId);
+    setBuffering(false);
+    videoDurationMs.current = 0;
+  }, [activeStoryId]);
+
+  // Runs the progress bar from wherever it stands, so pausing and resuming keeps the elapsed time.
+  useEffect(() => {
+    if (!activeStoryId || paused || playingVideo) {
+      return;
+    }
+    let animation: Animated.CompositeAnimation | null = null;
+    progress.stopAnimation((value) => {
+      animation = Animated.timing(progress, {
+        toValue: 1,
+        duration: STORY_DURATION_MS * (1 - value),
+        useNativeDriver: false,
+      });
+      animation.start(({ finished }) => {
+        if (finished) {
+          advanceStory();
+        }
+      });
     });
 
     return () => {
-      animation.stop();
+      animation?.stop();
     };
-  }, [activeStory?.id, advanceStory, progress]);
+  }, [activeStoryId, advanceStory, paused, playingVideo, progress, replayCount]);
+
+  const handleVideoLoad = useCallback((data: OnLoadData) => {
+    videoDurationMs.current = data.duration * 1000;
+    setMediaLoading(false);
+  }, []);
+
+  const handleVideoProgress = useCallback(
+    (data: OnProgressData) => {
+      if (videoDurationMs.current) {
+        progress.setValue(Math.min((data.currentTime * 1000) / videoDurationMs.current, 1));
+      }
+    },
+    [progress]
+  );
+
+  const handleVideoBuffer = useCallback((data: OnBufferData) => setBuffering(data.isBuffering), []);
+
+  const handleMediaError = useCallback(() => {
+    setMediaLoading(false);
+    setBuffering(false);
+    setMediaFailed(true);
+  }, []);
+
+  const releaseHold = useCallback(() => {
+    if (holdTimer.current) {
+      clearTimeout(holdTimer.current);
+      holdTimer.current = null;
+    }
+    const wasHeld = heldRef.current;
+    heldRef.current = false;
+    setHeld(false);
+    return wasHeld;
+  }, []);
+
+  /*
+   * Press and hold pauses; a tap on the left third goes back and anywhere else
+   * advances. Swiping sideways changes author and swiping down closes.
+   */
+  const panResponder = useMemo(
+    () =>
+      PanResponder.create({
+        onStartShouldSetPanResponder: () => true,
+        onMoveShouldSetPanResponder: (_, gesture) => Math.abs(gesture.dx) > 10 || Math.abs(gesture.dy) > 10,
+        onPanResponderGrant: () => {
+          holdTimer.current = setTimeout(() => {
+            heldRef.current = true;
+            setHeld(true);
+          }, HOLD_DELAY_MS);
+        },
+        onPanResponderMove: (_, gesture) => {
+          if (gesture.dy > 0 && gesture.dy > Math.abs(gesture.dx)) {
+            dragY.setValue(gesture.dy);
+          }
+        },
+        onPanResponderRelease: (event, gesture) => {
+          const wasHeld = releaseHold();
+          const vertical = Math.abs(gesture.dy) > Math.abs(gesture.dx);
+          if (vertical && gesture.dy > SWIPE_CLOSE_DISTANCE) {
+            closeStory();
+            return;
+          }
+          Animated.spring(dragY, { toValue: 0, useNativeDriver: true }).start();
+          if (!vertical && Math.abs(gesture.dx) > SWIPE_AUTHOR_DISTANCE) {
+            jumpAuthor(gesture.dx < 0 ? 1 : -1);
+            return;
+          }
+          if (wasHeld || Math.abs(gesture.dx) > 10 || Math.abs(gesture.dy) > 10) {
+            return;
+          }
+          if (event.nativeEvent.pageX < width / 3) {
+            previousStory();
+          } else {
+            advanceStory();
+          }
+        },
+        onPanResponderTerminate: () => {
+          releaseHold();
+          Animated.spring(dragY, { toValue: 0, useNativeDriver: true }).start();
+        },
+      }),
+    [advanceStory, closeStory, dragY, jumpAuthor, previousStory, releaseHold, width]
+  );
+
+  useEffect(() => {
+    if (!replyNotice) {
+      return;
+    }
+    const timer = setTimeout(() => setReplyNotice(null), REPLY_NOTICE_MS);
+    return () => clearTimeout(timer);
+  }, [replyNotice]);
 
   useEffect(() => {
     if (activeAuthorIndex === null) {
@@ -159,26 +373,104 @@ const Stories: React.FC<Props> = ({ authors, currentUserId, onDeleteStory }) =>
     ]);
   }, [activeAuthor, activeStory, closeStory, currentUserId, deletingStory, onDeleteStory]);
 
+  // Alert shows at most three buttons on Android, which callers keep to by passing few actions.
+  const openOwnerMenu = useCallback(() => {
+    if (!activeStory || !activeAuthor) {
+      return;
+    }
+    const buttons: AlertButton[] = [];
+    if (allowHighlights) {
+      buttons.push({
+        text: 'Add to highlight',
+        onPress: () =>
+          setHighlightItem({
+            storyId: activeStory.id,
+            mediaUrl: activeStory.mediaUrl,
+            mediaType: activeStory.mediaType,
+            caption: activeStory.caption,
+            createdAtMs: activeStory.createdAtMs,
+          }),
+      });
+    }
+    storyActions?.forEach((action) =>
+      buttons.push({
+        text: action.label,
+        style: action.destructive ? 'destructive' : 'default',
+        onPress: () => {
+          Promise.resolve()
+            .then(() => action.onPress(activeAuthor, activeStory))
+            .catch((error) => {
+              console.error(`Story action "${action.label}" failed`, error);
+              Alert.alert('Error', error?.message ?? 'Please try again.');
+            });
+        },
+      })
+    );
+    if (onDeleteStory) {
+      buttons.push({ text: 'Delete story', style: 'destructive', onPress: confirmDelete });
+    }
+    buttons.push({ text: 'Cancel', style: 'cancel' });
+    Alert.alert('Story', undefined, buttons);
+  }, [activeAuthor, activeStory, allowHighlights, confirmDelete, onDeleteStory, storyActions]);
+
+  const sendReply = useCallback(
+    async (text: string, reaction: boolean) => {
+      const body = text.trim();
+      if (!activeAuthor || !activeStory || !onReplyToStory || !body || sendingReply) {
+        return;
+      }
+      setSendingReply(true);
+      try {
+        await onReplyToStory(activeAuthor, activeStory, body, reaction);
+        if (!reaction) {
+          setReplyText('');
+          Keyboard.dismiss();
+        }
+        setReplyNotice(reaction ? `Sent ${body}` : 'Reply sent');
+      } catch (error: any) {
+        console.error('Failed to reply to story', error);
+        Alert.alert('Could not send', error?.message ?? 'Please try again.');
+      } finally {
+        setSendingReply(false);
+      }
+    },
+    [activeAuthor, activeStory, onReplyToStory, sendingReply]
+  );
+
   const openStory = useCallback((index: number) => {
+    dragY.setValue(0);
     setActiveAuthorIndex(index);
     setActiveStoryIndex(0);
-  }, []);
+  }, [dragY]);
+
+  const openAuthorProfile = useCallback(() => {
+    if (!activeAuthor || !onOpenProfile) {
+      return;
+    }
+    closeStory();
+    onOpenProfile(activeAuthor.userId);
+  }, [activeAuthor, closeStory, onOpenProfile]);
 
   const progressWidth = progress.interpolate({
     inputRange: [0, 1],
-    outputRange: [0, width],
+    outputRange: ['0%', '100%'],
   });
 
   const renderItem: ListRenderItem<StoryAuthor> = useCallback(
     ({ item, index }) => (
-      <TouchableOpacity style={styles.storyItem} onPress={() => openStory(index)} activeOpacity={0.8}>
+      <TouchableOpacity
+        style={styles.storyItem}
+        onPress={() => openStory(index)}
+        onLongPress={onOpenProfile ? () => onOpenProfile(item.userId) : undefined}
+        activeOpacity={0.8}
+      >
         <Avatar uri={item.avatar ?? undefined} label={item.username} size={64} />
         <Text numberOfLines={1} style={styles.storyName}>
           {item.username}
         </Text>
       </TouchableOpacity>
     ),
-    [openStory]
+    [onOpenProfile, openStory]
   );
 
   if (!authors.length) {
@@ -192,7 +484,7 @@ const Stories: React.FC<Props> = ({ authors, currentUserId, onDeleteStory }) =>
         showsHorizontalScrollIndicator={false}
         data={authors}
         renderItem={renderItem}
-        keyExtractor={(item) => item.userId}
+        keyExtractor={(item) => item.id ?? item.userId}
         contentContainerStyle={styles.listContent}
       />
 
@@ -202,14 +494,29 @@ const Stories: React.FC<Props> = ({ authors, currentUserId, onDeleteStory }) =>
         onRequestClose={handleClose}
         transparent
       >
-        <View style={styles.modalBackdrop}>
+        <KeyboardAvoidingView
+          style={styles.modalBackdrop}
+          behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        >
           {activeStory ? (
-            <View style={styles.modalContent}> 
-              <View style={styles.progressTrack}>
-                <Animated.View style={[styles.progressFill, { width: progressWidth }]} />
+            <Animated.View style={[styles.modalContent, { transform: [{ translateY: dragY }] }]}>
+              <View style={styles.progressRow}>
+                {activeAuthor?.stories.map((story, index) => (
+                  <View key={story.id} style={styles.progressTrack}>
+                    {index < activeStoryIndex ? <View style={[styles.progressFill, styles.progressDone]} /> : null}
+                    {index === activeStoryIndex ? (
+                      <Animated.View style={[styles.progressFill, { width: progressWidth }]} />
+                    ) : null}
+                  </View>
+                ))}
               </View>
               <View style={styles.modalHeader}>
-                <View style={styles.modalUser}>
+                <TouchableOpacity
+                  style={styles.modalUser}
+                  onPress={openAuthorProfile}
+                  disabled={!onOpenProfile}
+                  activeOpacity={0.8}
+                >
                   <Avatar
                     uri={activeAuthor?.avatar ?? undefined}
                     label={activeAuthor?.username || '?'}
@@ -221,11 +528,20 @@ const Stories: React.FC<Props> = ({ authors, currentUserId, onDeleteStory }) =>
                       {activeStoryIndex + 1} / {activeAuthor?.stories.length ?? 1}
                     </Text>
                   </View>
-                </View>
+                </TouchableOpacity>
                 <View style={styles.headerActions}>
-                  {activeAuthor?.userId === currentUserId && onDeleteStory ? (
+                  {playingVideo ? (
                     <TouchableOpacity
-                      onPress={confirmDelete}
+                      onPress={() => setMuted((value) => !value)}
+                      hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                      style={styles.iconButton}
+                    >
+                      <Icon name={muted ? 'volume-mute' : 'volume-high'} size={24} color="#fff" />
+                    </TouchableOpacity>
+                  ) : null}
+                  {hasOwnerMenu ? (
+                    <TouchableOpacity
+                      onPress={openOwnerMenu}
                       hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
                       disabled={deletingStory}
                       style={styles.iconButton}
@@ -238,25 +554,40 @@ const Stories: React.FC<Props> = ({ authors, currentUserId, onDeleteStory }) =>
                   </TouchableOpacity>
                 </View>
               </View>
-              <TouchableOpacity style={styles.storyBody} activeOpacity={1} onPress={advanceStory}>
-                <Image
-                  key={`${activeStory.id}-${activeStory.imageUrl}`}
-                  source={{ uri: activeStory.imageUrl }}
-                  style={styles.storyImage}
-                  resizeMode="cover"
-                  onLoad={() => setImageLoading(false)}
-                  onLoadEnd={() => setImageLoading(false)}
-                  onError={() => {
-                    setImageLoading(false);
-                    setImageFailed(true);
-                  }}
-                />
-                {imageLoading ? (
+              <View style={styles.storyBody} {...panResponder.panHandlers}>
+                {activeStory.mediaType === 'video' ? (
+                  <Video
+                    // Remounting restarts the clip when the story is replayed.
+                    key={`${activeStory.id}-${replayCount}`}
+                    source={{ uri: activeStory.mediaUrl }}
+                    style={styles.storyImage}
+                    resizeMode="cover"
+                    paused={paused}
+                    muted={muted}
+                    onLoad={handleVideoLoad}
+                    onProgress={handleVideoProgress}
+                    onBuffer={handleVideoBuffer}
+                    onEnd={advanceStory}
+                    onError={handleMediaError}
+                    progressUpdateInterval={100}
+                  />
+                ) : (
+                  <Image
+                    key={`${activeStory.id}-${activeStory.mediaUrl}`}
+                    source={{ uri: activeStory.mediaUrl }}
+                    style={styles.storyImage}
+                    resizeMode="cover"
+                    onLoad={() => setMediaLoading(false)}
+                    onLoadEnd={() => setMediaLoading(false)}
+                    onError={handleMediaError}
+                  />
+                )}
+                {(mediaLoading || buffering) && !mediaFailed ? (
                   <View style={styles.loaderOverlay}>
                     <ActivityIndicator color="#fff" size="large" />
                   </View>
                 ) : null}
-                {imageFailed ? (
+                {mediaFailed ? (
                   <View style={styles.loaderOverlay}>
                     <Text style={styles.errorText}>Story failed to load</Text>
                   </View>
@@ -266,10 +597,67 @@ const Stories: React.FC<Props> = ({ authors, currentUserId, onDeleteStory }) =>
                     <Text style={styles.captionText}>{activeStory.caption}</Text>
                   </View>
                 ) : null}
-              </TouchableOpacity>
-            </View>
+              </View>
+              {showViewers && isOwnStory && !held ? (
+                <TouchableOpacity
+                  style={styles.viewsButton}
+                  onPress={() => setViewersStoryId(activeStory.id)}
+                  hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                >
+                  <Icon name="eye-outline" size={22} color="#fff" />
+                  <Text style={styles.viewsText}>{activeStory.viewsCount ?? 0}</Text>
+                </TouchableOpacity>
+              ) : null}
+              {canReply && !held ? (
+                <View style={styles.replyBar}>
+                  {replyNotice ? (
+                    <Text style={styles.replyNotice}>{replyNotice}</Text>
+                  ) : (
+                    <View style={styles.reactionRow}>
+                      {REACTION_EMOJIS.map((emoji) => (
+                        <TouchableOpacity
+                          key={emoji}
+                          onPress={() => sendReply(emoji, true)}
+                          disabled={sendingReply}
+                          hitSlop={{ top: 6, bottom: 6, left: 6, right: 6 }}
+                        >
+                          <Text style={styles.reactionEmoji}>{emoji}</Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                  )}
+                  <View style={styles.replyRow}>
+                    <TextInput
+                      value={replyText}
+                      onChangeText={setReplyText}
+                      placeholder={`Reply to ${activeAuthor?.username ?? 'story'}…`}
+                      placeholderTextColor="rgba(255,255,255,0.6)"
+                      style={styles.replyInput}
+                      onFocus={() => setReplyFocused(true)}
+                      onBlur={() => setReplyFocused(false)}
+                      onSubmitEditing={() => sendReply(replyText, false)}
+                      returnKeyType="send"
+                      editable={!sendingReply}
+                    />
+                    {replyText.trim() ? (
+                      <TouchableOpacity onPress={() => sendReply(replyText, false)} disabled={sendingReply}>
+                        {sendingReply ? (
+                          <ActivityIndicator color="#fff" />
+                        ) : (
+                          <Icon name="paper-plane" size={24} color="#fff" />
+                        )}
+                      </TouchableOpacity>
+                    ) : null}
+                  </View>
+                </View>
+              ) : null}
+            </Animated.View>
+          ) : null}
+          <StoryViewersSheet storyId={viewersStoryId} onClose={() => setViewersStoryId(null)} />
+          {allowHighlights && currentUserId ? (
+            <AddToHighlightSheet uid={currentUserId} item={highlightItem} onClose={() => setHighlightItem(null)} />
           ) : null}
-        </View>
+        </KeyboardAvoidingView>
       </Modal>
     </View>
   );
@@ -303,9 +691,14 @@ const styles = StyleSheet.create({
     paddingTop: spacing.xl,
     paddingHorizontal: spacing.lg,
   },
+  progressRow: {
+    flexDirection: 'row',
+    gap: spacing.xs,
+  },
   progressTrack: {
-    height: 4,
-    borderRadius: 999,
+    flex: 1,
+    height: 3,
+    borderRadius: radii.pill,
     backgroundColor: 'rgba(255,255,255,0.3)',
     overflow: 'hidden',
   },
@@ -313,6 +706,9 @@ const styles = StyleSheet.create({
     height: '100%',
     backgroundColor: '#fff',
   },
+  progressDone: {
+    width: '100%',
+  },
   modalHeader: {
     marginTop: spacing.sm,
     flexDirection: 'row',
@@ -376,5 +772,50 @@ const styles = StyleSheet.create({
     color: '#fff',
     fontSize: 16,
   },
+  viewsButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: spacing.xs,
+    paddingVertical: spacing.md,
+  },
+  viewsText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  replyBar: {
+    paddingVertical: spacing.md,
+    gap: spacing.sm,
+  },
+  reactionRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+  },
+  reactionEmoji: {
+    fontSize: 28,
+  },
+  replyNotice: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+    textAlign: 'center',
+    lineHeight: 34,
+  },
+  replyRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.5)',
+    borderRadius: radii.pill,
+    paddingHorizontal: spacing.md,
+  },
+  replyInput: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 15,
+    paddingVertical: spacing.sm,
+  },
 });
 export default Stories;
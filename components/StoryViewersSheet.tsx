@@ -0,0 +1,103 @@
+import React from 'react';
+import { ActivityIndicator, FlatList, Modal, Pressable, StyleSheet, Text, View } from 'react-native';
+import Avatar from './ui/Avatar';
+import { useProfiles } from '../hooks/useProfiles';
+import { useStoryViews } from '../hooks/useStoryViews';
+import { StoryView } from '../services/stories';
+import { formatRelativeTime } from '../utils/format';
+import { palette, radii, spacing } from '../theme/tokens';
+
+type Props = {
+  // The sheet only listens for views while a story id is set.
+  storyId: string | null;
+  onClose: () => void;
+};
+
+const StoryViewersSheet: React.FC<Props> = ({ storyId, onClose }) => {
+  const { views, loading } = useStoryViews(storyId);
+  const profiles = useProfiles(views.map((view) => view.viewerId));
+
+  const renderItem = ({ item }: { item: StoryView }) => {
+    const profile = profiles[item.viewerId];
+    const username = profile?.username || 'Unknown user';
+    return (
+      <View style={styles.row}>
+        <Avatar label={username} uri={profile?.photoUrl} size={40} />
+        <Text style={styles.name} numberOfLines={1}>
+          {username}
+        </Text>
+        <Text style={styles.time}>{formatRelativeTime(item.viewedAt)}</Text>
+      </View>
+    );
+  };
+
+  return (
+    <Modal visible={!!storyId} transparent animationType="fade" onRequestClose={onClose}>
+      <Pressable style={styles.backdrop} onPress={onClose}>
+        <Pressable style={styles.sheet}>
+          <Text style={styles.title}>Viewers{views.length ? ` · ${views.length}` : ''}</Text>
+          {loading ? (
+            <ActivityIndicator color={palette.primary} style={styles.loader} />
+          ) : (
+            <FlatList
+              data={views}
+              keyExtractor={(item) => item.viewerId}
+              renderItem={renderItem}
+              style={styles.list}
+              ListEmptyComponent={<Text style={styles.emptyText}>No one has seen this story yet.</Text>}
+            />
+          )}
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: palette.overlay,
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: palette.surface,
+    borderTopLeftRadius: radii.lg,
+    borderTopRightRadius: radii.lg,
+    padding: spacing.lg,
+    paddingBottom: spacing.xxl,
+    gap: spacing.sm,
+  },
+  title: {
+    color: palette.text,
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  list: {
+    maxHeight: 360,
+  },
+  loader: {
+    marginVertical: spacing.xl,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+    paddingVertical: spacing.sm,
+  },
+  name: {
+    flex: 1,
+    color: palette.text,
+    fontSize: 16,
+  },
+  time: {
+    color: palette.textMuted,
+    fontSize: 12,
+  },
+  emptyText: {
+    color: palette.textMuted,
+    textAlign: 'center',
+    marginVertical: spacing.xl,
+  },
+});
+
+export default StoryViewersSheet;
@@ -0,0 +1,82 @@
+import { useCallback, useEffect, useState } from 'react';
+import { collection, onSnapshot } from 'firebase/firestore';
+import { db } from '../services/firebase';
+import { FollowState } from '../services/follows';
+
+export type FollowGraph = {
+  following: string[];
+  followers: string[];
+  incoming: string[];
+  outgoing: string[];
+  loading: boolean;
+  followStateFor: (uid: string) => FollowState;
+};
+
+type Edges = Omit<FollowGraph, 'loading' | 'followStateFor'>;
+
+const EDGE_COLLECTIONS: Record<keyof Edges, string> = {
+  following: 'friends',
+  followers: 'followers',
+  incoming: 'followRequests',
+  outgoing: 'sentRequests',
+};
+
+const emptyEdges: Edges = { following: [], followers: [], incoming: [], outgoing: [] };
+
+/**
+ * Live view of the signed-in user's side of the follow graph. Incoming and
+ * outgoing lists are ordered newest first.
+ */
+export const useFollowGraph = (uid?: string | null): FollowGraph => {
+  const [edges, setEdges] = useState<Edges>(emptyEdges);
+  const [loadedKeys, setLoadedKeys] = useState<string[]>([]);
+
+  useEffect(() => {
+    setEdges(emptyEdges);
+    setLoadedKeys([]);
+    if (!uid) {
+      return;
+    }
+
+    const unsubscribers = (Object.keys(EDGE_COLLECTIONS) as (keyof Edges)[]).map((key) =>
+      onSnapshot(
+        collection(db, 'users', uid, EDGE_COLLECTIONS[key]),
+        (snapshot) => {
+          const ids = snapshot.docs
+            .map((docSnap) => ({ id: docSnap.id, at: docSnap.data().createdAt?.toMillis?.() ?? Date.now() }))
+            .sort((a, b) => b.at - a.at)
+            .map((entry) => entry.id);
+          setEdges((prev) => ({ ...prev, [key]: ids }));
+          setLoadedKeys((prev) => (prev.includes(key) ? prev : [...prev, key]));
+        },
+        (error) => {
+          console.error(`Error loading ${EDGE_COLLECTIONS[key]}`, error);
+          setLoadedKeys((prev) => (prev.includes(key) ? prev : [...prev, key]));
+        }
+      )
+    );
+
+    return () => {
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
+    };
+  }, [uid]);
+
+  const followStateFor = useCallback(
+    (targetId: string): FollowState => {
+      if (edges.following.includes(targetId)) {
+        return 'following';
+      }
+      if (edges.outgoing.includes(targetId)) {
+        return 'requested';
+      }
+      return 'none';
+    },
+    [edges.following, edges.outgoing]
+  );
+
+  return {
+    ...edges,
+    loading: !!uid && loadedKeys.length < Object.keys(EDGE_COLLECTIONS).length,
+    followStateFor,
+  };
+};
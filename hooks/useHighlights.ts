@@ -0,0 +1,36 @@
+import { useEffect, useState } from 'react';
+import { onSnapshot, orderBy, query } from 'firebase/firestore';
+import { Highlight, highlightsCollection } from '../services/highlights';
+
+/** Live list of a user's highlights, oldest first like the profile row shows them. */
+export const useHighlights = (uid?: string | null) => {
+  const [highlights, setHighlights] = useState<Highlight[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    setHighlights([]);
+    if (!uid) {
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    return onSnapshot(
+      query(highlightsCollection(uid), orderBy('createdAt', 'asc')),
+      (snapshot) => {
+        setHighlights(
+          snapshot.docs.map((docSnap) => {
+            const data = docSnap.data({ serverTimestamps: 'estimate' }) as Omit<Highlight, 'id'>;
+            return { ...data, id: docSnap.id, items: data.items ?? [] };
+          })
+        );
+        setLoading(false);
+      },
+      (error) => {
+        console.error('Error loading highlights', error);
+        setLoading(false);
+      }
+    );
+  }, [uid]);
+
+  return { highlights, loading };
+};
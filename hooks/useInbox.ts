@@ -0,0 +1,44 @@
+import { useEffect, useState } from 'react';
+import { onSnapshot, orderBy, query, where } from 'firebase/firestore';
+import { ChatSummary, chatsCollection, toChatSummary } from '../services/chat';
+
+export type Inbox = {
+  chats: ChatSummary[];
+  unreadTotal: number;
+  loading: boolean;
+};
+
+/** Live list of the user's conversations, most recent activity first. */
+export const useInbox = (uid?: string | null): Inbox => {
+  const [chats, setChats] = useState<ChatSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    setChats([]);
+    if (!uid) {
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    const inboxQuery = query(
+      chatsCollection(),
+      where('participants', 'array-contains', uid),
+      orderBy('lastMessageAt', 'desc')
+    );
+    return onSnapshot(
+      inboxQuery,
+      (snapshot) => {
+        setChats(snapshot.docs.map(toChatSummary));
+        setLoading(false);
+      },
+      (error) => {
+        console.error('Error loading inbox', error);
+        setLoading(false);
+      }
+    );
+  }, [uid]);
+
+  const unreadTotal = uid ? chats.reduce((sum, chat) => sum + (chat.unreadCounts?.[uid] ?? 0), 0) : 0;
+
+  return { chats, unreadTotal, loading };
+};
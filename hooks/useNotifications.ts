@@ -0,0 +1,62 @@
+import { useEffect, useMemo, useState } from 'react';
+import { limit, onSnapshot, orderBy, query } from 'firebase/firestore';
+import {
+  AppNotification,
+  groupNotifications,
+  NotificationGroup,
+  NOTIFICATIONS_LIMIT,
+  notificationsCollection,
+} from '../services/notifications';
+
+export type Notifications = {
+  groups: NotificationGroup[];
+  unreadIds: string[];
+  unreadCount: number;
+  loading: boolean;
+};
+
+/** Live activity for the user, grouped for display, newest first. */
+export const useNotifications = (uid?: string | null): Notifications => {
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    setNotifications([]);
+    if (!uid) {
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    const notificationsQuery = query(
+      notificationsCollection(uid),
+      orderBy('createdAt', 'desc'),
+      limit(NOTIFICATIONS_LIMIT)
+    );
+    return onSnapshot(
+      notificationsQuery,
+      (snapshot) => {
+        setNotifications(
+          snapshot.docs.map((docSnap) => ({
+            ...(docSnap.data({ serverTimestamps: 'estimate' }) as Omit<AppNotification, 'id'>),
+            id: docSnap.id,
+          }))
+        );
+        setLoading(false);
+      },
+      (error) => {
+        console.error('Error loading notifications', error);
+        setLoading(false);
+      }
+    );
+  }, [uid]);
+
+  const groups = useMemo(() => groupNotifications(notifications), [notifications]);
+  const unreadIds = useMemo(
+    () => notifications.filter((notification) => !notification.read).map((notification) => notification.id),
+    [notifications]
+  );
+  // The badge counts rows, so "Ana and 4 others liked your post" is one.
+  const unreadCount = groups.filter((group) => !group.read).length;
+
+  return { groups, unreadIds, unreadCount, loading };
+};
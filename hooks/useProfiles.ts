@@ -0,0 +1,35 @@
+import { useEffect, useState } from 'react';
+import { fetchProfiles, getCachedProfile, UserProfile } from '../services/profiles';
+
+export const useProfiles = (uids: string[]) => {
+  const key = Array.from(new Set(uids)).sort().join(',');
+  const [profiles, setProfiles] = useState<Record<string, UserProfile>>(() => {
+    const initial: Record<string, UserProfile> = {};
+    uids.forEach((uid) => {
+      const cached = getCachedProfile(uid);
+      if (cached) {
+        initial[uid] = cached;
+      }
+    });
+    return initial;
+  });
+
+  useEffect(() => {
+    if (!key) {
+      return;
+    }
+    let active = true;
+    fetchProfiles(key.split(','))
+      .then((resolved) => {
+        if (active) {
+          setProfiles((prev) => ({ ...prev, ...resolved }));
+        }
+      })
+      .catch((error) => console.error('Failed to load profiles', error));
+    return () => {
+      active = false;
+    };
+  }, [key]);
+
+  return profiles;
+};
@@ -0,0 +1,129 @@
+import { useEffect, useMemo, useState } from 'react';
+import { collection, documentId, onSnapshot, orderBy, query, where } from 'firebase/firestore';
+import { db } from '../services/firebase';
+import {
+  SavedCollection,
+  savedCollectionsCollection,
+  SavedPost,
+  savedPostsCollection,
+  unsavePost,
+} from '../services/saved';
+import { Post } from '../types/post';
+import { chunk } from '../utils/array';
+
+export type SavedEntry = SavedPost & { post: Post };
+
+export type SavedPosts = {
+  entries: SavedEntry[];
+  collections: SavedCollection[];
+  loading: boolean;
+};
+
+/**
+ * Live view of a user's bookmarks joined with the posts they point at. Posts
+ * the author has deleted drop out straight away, and their bookmark docs are
+ * removed once the server confirms the post is gone.
+ */
+export const useSavedPosts = (uid?: string): SavedPosts => {
+  const [saved, setSaved] = useState<SavedPost[]>([]);
+  const [savedReady, setSavedReady] = useState(false);
+  const [collections, setCollections] = useState<SavedCollection[]>([]);
+  // `null` marks a post that no longer exists.
+  const [resolved, setResolved] = useState<Record<string, Post | null>>({});
+
+  useEffect(() => {
+    setSaved([]);
+    setSavedReady(false);
+    if (!uid) {
+      return;
+    }
+    return onSnapshot(
+      query(savedPostsCollection(uid), orderBy('createdAt', 'desc')),
+      (snapshot) => {
+        setSaved(
+          snapshot.docs.map((docSnap) => {
+            const data = docSnap.data({ serverTimestamps: 'estimate' }) as SavedPost;
+            return { ...data, postId: docSnap.id };
+          })
+        );
+        setSavedReady(true);
+      },
+      (error) => {
+        console.error('Error loading saved posts', error);
+        setSavedReady(true);
+      }
+    );
+  }, [uid]);
+
+  useEffect(() => {
+    setCollections([]);
+    if (!uid) {
+      return;
+    }
+    return onSnapshot(
+      query(savedCollectionsCollection(uid), orderBy('createdAt', 'asc')),
+      (snapshot) =>
+        setCollections(
+          snapshot.docs.map((docSnap) => {
+            const data = docSnap.data({ serverTimestamps: 'estimate' }) as Omit<SavedCollection, 'id'>;
+            return { ...data, id: docSnap.id };
+          })
+        ),
+      (error) => console.error('Error loading saved collections', error)
+    );
+  }, [uid]);
+
+  const postKey = useMemo(
+    () =>
+      saved
+        .map((entry) => entry.postId)
+        .sort()
+        .join(','),
+    [saved]
+  );
+
+  useEffect(() => {
+    if (!uid || !postKey) {
+      return;
+    }
+    const unsubscribes = chunk(postKey.split(',')).map((bucket) =>
+      onSnapshot(
+        query(collection(db, 'posts'), where(documentId(), 'in', bucket)),
+        (snapshot) => {
+          const next: Record<string, Post | null> = {};
+          bucket.forEach((postId) => {
+            next[postId] = null;
+          });
+          snapshot.docs.forEach((docSnap) => {
+            const data = docSnap.data({ serverTimestamps: 'estimate' }) as Omit<Post, 'id'>;
+            next[docSnap.id] = { ...data, id: docSnap.id };
+          });
+          setResolved((prev) => ({ ...prev, ...next }));
+
+          if (!snapshot.metadata.fromCache) {
+            bucket
+              .filter((postId) => next[postId] === null)
+              .forEach((postId) =>
+                unsavePost(uid, postId).catch((error) => console.error('Failed to prune saved post', error))
+              );
+          }
+        },
+        (error) => console.error('Error loading saved posts', error)
+      )
+    );
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+  }, [postKey, uid]);
+
+  const entries = useMemo(
+    () =>
+      saved.flatMap((entry) => {
+        const post = resolved[entry.postId];
+        return post ? [{ ...entry, post }] : [];
+      }),
+    [resolved, saved]
+  );
+
+  const loading = !savedReady || saved.some((entry) => resolved[entry.postId] === undefined);
+
+  return { entries, collections, loading };
+};
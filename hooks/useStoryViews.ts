@@ -0,0 +1,36 @@
+import { useEffect, useState } from 'react';
+import { onSnapshot, orderBy, query } from 'firebase/firestore';
+import { StoryView, storyViewsCollection } from '../services/stories';
+
+/** Live list of who viewed a story, most recent first. Pass null to stay idle. */
+export const useStoryViews = (storyId: string | null) => {
+  const [views, setViews] = useState<StoryView[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    setViews([]);
+    if (!storyId) {
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    return onSnapshot(
+      query(storyViewsCollection(storyId), orderBy('viewedAt', 'desc')),
+      (snapshot) => {
+        setViews(
+          snapshot.docs.map((docSnap) => {
+            const data = docSnap.data({ serverTimestamps: 'estimate' }) as Partial<StoryView>;
+            return { viewerId: data.viewerId ?? docSnap.id, viewedAt: data.viewedAt };
+          })
+        );
+        setLoading(false);
+      },
+      (error) => {
+        console.error('Error loading story views', error);
+        setLoading(false);
+      }
+    );
+  }, [storyId]);
+
+  return { views, loading };
+};
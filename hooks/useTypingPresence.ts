@@ -0,0 +1,86 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { onSnapshot, Timestamp } from 'firebase/firestore';
+import { setTyping, TYPING_THROTTLE_MS, TYPING_TTL_MS, typingCollection } from '../services/chat';
+
+export type TypingPresence = {
+  typingIds: string[];
+  notifyTyping: () => void;
+  clearTyping: () => void;
+};
+
+/**
+ * Publishes this user's typing marker (throttled) and watches everyone else's
+ * in the chat. A marker only counts for `TYPING_TTL_MS` after its last
+ * refresh, so a client that disappears mid-sentence stops showing "typing…".
+ */
+export const useTypingPresence = (chatId: string, uid?: string): TypingPresence => {
+  const [typingIds, setTypingIds] = useState<string[]>([]);
+  const lastSentRef = useRef(0);
+
+  useEffect(() => {
+    setTypingIds([]);
+    if (!chatId) {
+      return;
+    }
+    let markers: { uid: string; atMs: number }[] = [];
+    let expiry: ReturnType<typeof setTimeout> | undefined;
+
+    const refresh = () => {
+      if (expiry) {
+        clearTimeout(expiry);
+        expiry = undefined;
+      }
+      const now = Date.now();
+      const live = markers.filter((marker) => now - marker.atMs < TYPING_TTL_MS);
+      setTypingIds((prev) => {
+        const next = live.map((marker) => marker.uid);
+        return prev.length === next.length && prev.every((id, index) => id === next[index]) ? prev : next;
+      });
+      if (live.length) {
+        const nextExpiry = Math.min(...live.map((marker) => marker.atMs + TYPING_TTL_MS));
+        expiry = setTimeout(refresh, Math.max(nextExpiry - now, 0));
+      }
+    };
+
+    const unsubscribe = onSnapshot(
+      typingCollection(chatId),
+      (snapshot) => {
+        markers = snapshot.docs
+          .filter((docSnap) => docSnap.id !== uid)
+          .map((docSnap) => {
+            const at = docSnap.data({ serverTimestamps: 'estimate' }).at as Timestamp | undefined;
+            return { uid: docSnap.id, atMs: at?.toMillis() ?? 0 };
+          });
+        refresh();
+      },
+      (error) => console.error('Error loading typing state', error)
+    );
+    return () => {
+      if (expiry) {
+        clearTimeout(expiry);
+      }
+      unsubscribe();
+    };
+  }, [chatId, uid]);
+
+  const notifyTyping = useCallback(() => {
+    const now = Date.now();
+    if (!chatId || !uid || now - lastSentRef.current < TYPING_THROTTLE_MS) {
+      return;
+    }
+    lastSentRef.current = now;
+    setTyping(chatId, uid, true).catch((error) => console.error('Failed to publish typing state', error));
+  }, [chatId, uid]);
+
+  const clearTyping = useCallback(() => {
+    if (!chatId || !uid || !lastSentRef.current) {
+      return;
+    }
+    lastSentRef.current = 0;
+    setTyping(chatId, uid, false).catch((error) => console.error('Failed to clear typing state', error));
+  }, [chatId, uid]);
+
+  useEffect(() => clearTyping, [clearTyping]);
+
+  return { typingIds, notifyTyping, clearTyping };
+};
@@ -0,0 +1,69 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { QueryDocumentSnapshot } from 'firebase/firestore';
+import { fetchUserPosts } from '../services/posts';
+import { Post } from '../types/post';
+
+export type UserPosts = {
+  posts: Post[];
+  loading: boolean;
+  loadingMore: boolean;
+  hasMore: boolean;
+  loadMore: () => void;
+};
+
+/** Paged grid source for one author's posts. */
+export const useUserPosts = (userId?: string): UserPosts => {
+  const [posts, setPosts] = useState<Post[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const cursorRef = useRef<QueryDocumentSnapshot | null>(null);
+  const activeUserRef = useRef(userId);
+
+  useEffect(() => {
+    activeUserRef.current = userId;
+    cursorRef.current = null;
+    setPosts([]);
+    setHasMore(false);
+    if (!userId) {
+      setLoading(false);
+      return;
+    }
+    setLoading(true);
+    fetchUserPosts(userId, null)
+      .then((page) => {
+        if (activeUserRef.current !== userId) {
+          return;
+        }
+        cursorRef.current = page.cursor;
+        setPosts(page.posts);
+        setHasMore(page.hasMore);
+      })
+      .catch((error) => console.error('Error loading posts', error))
+      .finally(() => {
+        if (activeUserRef.current === userId) {
+          setLoading(false);
+        }
+      });
+  }, [userId]);
+
+  const loadMore = useCallback(() => {
+    if (!userId || loading || loadingMore || !hasMore) {
+      return;
+    }
+    setLoadingMore(true);
+    fetchUserPosts(userId, cursorRef.current)
+      .then((page) => {
+        if (activeUserRef.current !== userId) {
+          return;
+        }
+        cursorRef.current = page.cursor;
+        setPosts((prev) => [...prev, ...page.posts]);
+        setHasMore(page.hasMore);
+      })
+      .catch((error) => console.error('Error loading posts', error))
+      .finally(() => setLoadingMore(false));
+  }, [hasMore, loading, loadingMore, userId]);
+
+  return { posts, loading, loadingMore, hasMore, loadMore };
+};
@@ -0,0 +1,86 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { QueryDocumentSnapshot } from 'firebase/firestore';
+import { searchProfiles, UserProfile } from '../services/profiles';
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+export type UserSearch = {
+  results: UserProfile[];
+  searching: boolean;
+  loadingMore: boolean;
+  hasMore: boolean;
+  loadMore: () => void;
+};
+
+/**
+ * Debounced, paged username prefix search. Results for a stale term are
+ * dropped when they arrive after the term has changed.
+ */
+export const useUserSearch = (term: string): UserSearch => {
+  const [results, setResults] = useState<UserProfile[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const cursorRef = useRef<QueryDocumentSnapshot | null>(null);
+  const activeTermRef = useRef('');
+
+  useEffect(() => {
+    const trimmed = term.trim();
+    activeTermRef.current = trimmed;
+    cursorRef.current = null;
+    setResults([]);
+    setHasMore(false);
+    setLoadingMore(false);
+
+    if (!trimmed) {
+      setSearching(false);
+      return;
+    }
+
+    setSearching(true);
+    const timer = setTimeout(() => {
+      searchProfiles(trimmed, null)
+        .then((page) => {
+          if (activeTermRef.current !== trimmed) {
+            return;
+          }
+          cursorRef.current = page.cursor;
+          setResults(page.users);
+          setHasMore(page.hasMore);
+        })
+        .catch((error) => console.error('User search failed', error))
+        .finally(() => {
+          if (activeTermRef.current === trimmed) {
+            setSearching(false);
+          }
+        });
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [term]);
+
+  const loadMore = useCallback(() => {
+    const trimmed = activeTermRef.current;
+    if (!trimmed || searching || loadingMore || !hasMore) {
+      return;
+    }
+    setLoadingMore(true);
+    searchProfiles(trimmed, cursorRef.current)
+      .then((page) => {
+        if (activeTermRef.current !== trimmed) {
+          return;
+        }
+        cursorRef.current = page.cursor;
+        setResults((prev) => [...prev, ...page.users]);
+        setHasMore(page.hasMore);
+      })
+      .catch((error) => console.error('User search failed', error))
+      .finally(() => {
+        if (activeTermRef.current === trimmed) {
+          setLoadingMore(false);
+        }
+      });
+  }, [searching, loadingMore, hasMore]);
+
+  return { results, searching, loadingMore, hasMore, loadMore };
+};
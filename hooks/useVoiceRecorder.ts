@@ -0,0 +1,95 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { PermissionsAndroid, Platform } from 'react-native';
+import AudioRecorderPlayer from 'react-native-audio-recorder-player';
+import { MAX_CLIP_SECONDS, OutgoingClip } from '../services/chat';
+
+export type VoiceRecorder = {
+  recording: boolean;
+  elapsedMs: number;
+  start: () => Promise<void>;
+  stop: () => Promise<OutgoingClip | null>;
+  cancel: () => Promise<void>;
+};
+
+const recorder = new AudioRecorderPlayer();
+
+const ensureMicrophonePermission = async () => {
+  if (Platform.OS !== 'android') {
+    return true;
+  }
+  const result = await PermissionsAndroid.request(PermissionsAndroid.PERMISSIONS.RECORD_AUDIO);
+  return result === PermissionsAndroid.RESULTS.GRANTED;
+};
+
+/**
+ * Records a single voice clip at a time. Recording stops by itself at
+ * `MAX_CLIP_SECONDS`; `onLimit` receives the finished clip in that case.
+ */
+export const useVoiceRecorder = (onLimit: (clip: OutgoingClip) => void): VoiceRecorder => {
+  const [recording, setRecording] = useState(false);
+  const [elapsedMs, setElapsedMs] = useState(0);
+  const recordingRef = useRef(false);
+  const elapsedRef = useRef(0);
+  const onLimitRef = useRef(onLimit);
+  onLimitRef.current = onLimit;
+
+  const finish = useCallback(async (): Promise<OutgoingClip | null> => {
+    if (!recordingRef.current) {
+      return null;
+    }
+    recordingRef.current = false;
+    recorder.removeRecordBackListener();
+    setRecording(false);
+    const uri = await recorder.stopRecorder();
+    const durationMs = elapsedRef.current;
+    setElapsedMs(0);
+    if (!uri || durationMs < 500) {
+      return null;
+    }
+    return {
+      type: 'audio',
+      durationMs,
+      asset: { uri, type: 'audio/mp4', fileName: `voice-${Date.now()}.m4a` },
+    };
+  }, []);
+
+  const start = useCallback(async () => {
+    if (recordingRef.current) {
+      return;
+    }
+    if (!(await ensureMicrophonePermission())) {
+      throw new Error('Microphone access is needed to record voice messages.');
+    }
+    elapsedRef.current = 0;
+    setElapsedMs(0);
+    await recorder.startRecorder();
+    recordingRef.current = true;
+    setRecording(true);
+    recorder.addRecordBackListener(({ currentPosition }) => {
+      elapsedRef.current = currentPosition;
+      setElapsedMs(currentPosition);
+      if (currentPosition >= MAX_CLIP_SECONDS * 1000) {
+        finish()
+          .then((clip) => clip && onLimitRef.current(clip))
+          .catch((error) => console.error('Failed to stop recording', error));
+      }
+    });
+  }, [finish]);
+
+  const cancel = useCallback(async () => {
+    await finish();
+  }, [finish]);
+
+  useEffect(
+    () => () => {
+      if (recordingRef.current) {
+        recordingRef.current = false;
+        recorder.removeRecordBackListener();
+        recorder.stopRecorder().catch(() => undefined);
+      }
+    },
+    []
+  );
+
+  return { recording, elapsedMs, start, stop: finish, cancel };
+};
@@ -9,8 +9,13 @@ module.exports = {
   moduleNameMapper: {
     '^@react-native-async-storage/async-storage$':
       '<rootDir>/node_modules/@react-native-async-storage/async-storage/jest/async-storage-mock.js',
+    '^@react-native-community/netinfo$':
+      '<rootDir>/node_modules/@react-native-community/netinfo/jest/netinfo-mock.js',
+    '^@dr.pogodin/react-native-fs$': '<rootDir>/__mocks__/react-native-fs.js',
     '^react-native-share$': '<rootDir>/__mocks__/react-native-share.js',
     '^react-native-video$': '<rootDir>/__mocks__/react-native-video.js',
+    '^react-native-audio-recorder-player$':
+      '<rootDir>/__mocks__/react-native-audio-recorder-player.js',
     '^react-native-linear-gradient$':
       '<rootDir>/__mocks__/react-native-linear-gradient.js',
     '^react-native-image-picker$':
@@ -5,12 +5,20 @@ import FeedScreen from '../screens/FeedScreen';
 import FriendsScreen from '../screens/FriendsScreen';
 import CreatePostScreen from '../screens/CreatePostScreen';
 import ProfileScreen from '../screens/ProfileScreen';
+import InboxScreen from '../screens/InboxScreen';
+import NotificationsScreen from '../screens/NotificationsScreen';
+import { auth } from '../services/firebase';
+import { useInbox } from '../hooks/useInbox';
+import { useNotifications } from '../hooks/useNotifications';
 import { AppTabsParamList } from '../types/navigation';
 import { palette } from '../theme/tokens';
 
 const Tab = createBottomTabNavigator<AppTabsParamList>();
 
 const AppTabs = () => {
+  const { unreadTotal } = useInbox(auth.currentUser?.uid);
+  const { unreadCount } = useNotifications(auth.currentUser?.uid);
+
   return (
     <Tab.Navigator
       screenOptions={({ route }) => ({
@@ -43,6 +51,16 @@ const AppTabs = () => {
         component={CreatePostScreen}
         options={{ tabBarLabel: 'Create' }}
       />
+      <Tab.Screen
+        name="Inbox"
+        component={InboxScreen}
+        options={{ tabBarBadge: unreadTotal > 0 ? unreadTotal : undefined }}
+      />
+      <Tab.Screen
+        name="Activity"
+        component={NotificationsScreen}
+        options={{ tabBarBadge: unreadCount > 0 ? unreadCount : undefined }}
+      />
       <Tab.Screen name="Profile" component={ProfileScreen} />
     </Tab.Navigator>
   );
@@ -56,6 +74,10 @@ const iconNameForRoute = (route: keyof AppTabsParamList): string => {
       return 'people';
     case 'Create':
       return 'add-circle';
+    case 'Inbox':
+      return 'chatbubbles';
+    case 'Activity':
+      return 'heart';
     case 'Profile':
       return 'person';
     default:
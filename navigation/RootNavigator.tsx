@@ -4,9 +4,20 @@ import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import { StyleSheet, Text, View } from 'react-native';
 import { onAuthStateChanged, User } from 'firebase/auth';
 import { auth } from '../services/firebase';
+import { config, configIssues, isConfigValid } from '../services/config';
+import { startUploadQueue } from '../services/uploadQueue';
+import { ensureSearchableProfile } from '../services/profiles';
 import AuthStack from './AuthStack';
+import { linking, setLinkingSignedIn } from './linking';
 import AppTabs from './AppTabs';
 import ChatScreen from '../screens/ChatScreen';
+import CommentsScreen from '../screens/CommentsScreen';
+import LikesScreen from '../screens/LikesScreen';
+import UserProfileScreen from '../screens/UserProfileScreen';
+import PostDetailScreen from '../screens/PostDetailScreen';
+import NewGroupScreen from '../screens/NewGroupScreen';
+import GroupInfoScreen from '../screens/GroupInfoScreen';
+import ConfigErrorScreen from '../screens/ConfigErrorScreen';
 import { RootStackParamList } from '../types/navigation';
 import { palette } from '../theme/tokens';
 import LottieView from 'lottie-react-native';
@@ -15,9 +26,12 @@ const Stack = createNativeStackNavigator<RootStackParamList>();
 
 const RootNavigator = () => {
   const [user, setUser] = useState<User | null>(null);
-  const [loading, setLoading] = useState(true);
+  const [loading, setLoading] = useState(isConfigValid);
 
   useEffect(() => {
+    if (!isConfigValid) {
+      return;
+    }
     const unsubscribe = onAuthStateChanged(auth, (user) => {
       setUser(user);
       setLoading(false);
@@ -25,6 +39,19 @@ const RootNavigator = () => {
     return unsubscribe; // Unsubscribe on component unmount
   }, []);
 
+  useEffect(() => {
+    setLinkingSignedIn(!!user);
+    if (!user) {
+      return;
+    }
+    ensureSearchableProfile(user.uid).catch((error) => console.error('Failed to index username', error));
+    return startUploadQueue();
+  }, [user]);
+
+  if (!isConfigValid) {
+    return <ConfigErrorScreen profile={config.profile} issues={configIssues} />;
+  }
+
   if (loading) {
     return (
       <View style={styles.splashContainer}>
@@ -40,7 +67,7 @@ const RootNavigator = () => {
   }
 
   return (
-    <NavigationContainer>
+    <NavigationContainer linking={linking}>
       {user ? (
         <Stack.Navigator
           screenOptions={{
@@ -53,8 +80,14 @@ const RootNavigator = () => {
           <Stack.Screen
             name="Chat"
             component={ChatScreen}
-            options={({ route }) => ({ title: route.params.friendName })}
+            options={({ route }) => ({ title: route.params.friendName ?? '' })}
           />
+          <Stack.Screen name="Comments" component={CommentsScreen} />
+          <Stack.Screen name="Likes" component={LikesScreen} options={{ title: 'Likes' }} />
+          <Stack.Screen name="UserProfile" component={UserProfileScreen} options={{ title: '' }} />
+          <Stack.Screen name="PostDetail" component={PostDetailScreen} options={{ title: 'Post' }} />
+          <Stack.Screen name="NewGroup" component={NewGroupScreen} options={{ title: 'New group' }} />
+          <Stack.Screen name="GroupInfo" component={GroupInfoScreen} options={{ title: 'Group info' }} />
         </Stack.Navigator>
       ) : (
         <AuthStack />
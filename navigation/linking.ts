@@ -0,0 +1,59 @@
+import { Linking } from 'react-native';
+import { LinkingOptions } from '@react-navigation/native';
+import { RootStackParamList } from '../types/navigation';
+
+export const WEB_LINK_PREFIX = 'https://socialgram.app';
+export const POST_LINK_BASE_URL = `${WEB_LINK_PREFIX}/posts`;
+
+// A link that arrived while nobody was signed in, replayed after sign-in.
+let pendingUrl: string | null = null;
+let deliver: ((url: string) => void) | null = null;
+let signedIn = false;
+
+/**
+ * Deep links into the signed-in stack. The auth stack has none of these
+ * routes, so links received while signed out are parked instead of dropped.
+ */
+export const linking: LinkingOptions<RootStackParamList> = {
+  prefixes: [WEB_LINK_PREFIX, 'socialgram://'],
+  config: {
+    initialRouteName: 'AppTabs',
+    screens: {
+      PostDetail: 'posts/:postId',
+      UserProfile: 'users/:userId',
+      Chat: 'chats/:chatId',
+    },
+  },
+  async getInitialURL() {
+    const url = await Linking.getInitialURL();
+    if (url && !signedIn) {
+      pendingUrl = url;
+      return null;
+    }
+    return url;
+  },
+  subscribe(listener) {
+    deliver = listener;
+    const subscription = Linking.addEventListener('url', ({ url }) => {
+      if (signedIn) {
+        listener(url);
+      } else {
+        pendingUrl = url;
+      }
+    });
+    return () => {
+      deliver = null;
+      subscription.remove();
+    };
+  },
+};
+
+/** Call once the signed-in stack is mounted (or torn down) so parked links land on real routes. */
+export const setLinkingSignedIn = (value: boolean) => {
+  signedIn = value;
+  if (value && pendingUrl && deliver) {
+    const url = pendingUrl;
+    pendingUrl = null;
+    deliver(url);
+  }
+};
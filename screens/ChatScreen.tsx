@@ -1,10 +1,12 @@
-import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
 	ActivityIndicator,
 	Alert,
 	FlatList,
+	Image,
 	KeyboardAvoidingView,
 	Platform,
+	Pressable,
 	SafeAreaView,
 	StyleSheet,
 	Text,
@@ -12,59 +14,174 @@ import {
 	TouchableOpacity,
 	View,
 } from 'react-native';
-import { useRoute, RouteProp } from '@react-navigation/native';
-import {
-	addDoc,
-	collection,
-	doc,
-	limit,
-	onSnapshot,
-	orderBy,
-	query,
-	serverTimestamp,
-	Timestamp,
-	Unsubscribe,
-} from 'firebase/firestore';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { Asset, launchCamera, launchImageLibrary } from 'react-native-image-picker';
+import Icon from 'react-native-vector-icons/Ionicons';
+import { doc, onSnapshot, Unsubscribe } from 'firebase/firestore';
 import { auth, db } from '../services/firebase';
+import {
+	buildChatId,
+	chatDoc,
+	ChatMessage,
+	ChatSummary,
+	deleteMessage,
+	directChatPeer,
+	editTextMessage,
+	isGroupChat,
+	markChatRead,
+	MAX_CLIP_SECONDS,
+	MESSAGES_PAGE_SIZE,
+	messagesCollection,
+	OutgoingClip,
+	previewText,
+	quoteMessage,
+	sendClipMessage,
+	setReaction,
+	sendTextMessage,
+	StoryQuote,
+	toMessage,
+} from '../services/chat';
+import { isUploadCancelled } from '../services/upload';
+import { createLivePager, LivePager } from '../services/livePager';
+import { useVoiceRecorder } from '../hooks/useVoiceRecorder';
+import { useTypingPresence } from '../hooks/useTypingPresence';
+import ClipPlayer from '../components/ClipPlayer';
+import MessageActionsSheet from '../components/MessageActionsSheet';
+import { useProfiles } from '../hooks/useProfiles';
+import { formatDuration } from '../utils/format';
+import { RootStackParamList } from '../types/navigation';
 
 type ChatRouteParams = {
 	Chat: {
-		friendId: string;
-		friendName: string;
+		chatId?: string;
+		friendId?: string;
+		friendName?: string;
 	};
 };
 
-type Message = {
-	id: string;
-	senderId: string;
-	type?: 'text' | 'audio' | 'video';
-	text?: string;
-	createdAt?: Timestamp;
-};
+type ChatMeta = Omit<ChatSummary, 'id'>;
 
-const buildChatId = (a: string, b: string) => [a, b].sort().join('_');
+const groupInfoButton = (onPress: () => void) => () =>
+	(
+		<TouchableOpacity onPress={onPress} hitSlop={8}>
+			<Icon name="information-circle-outline" size={24} color="#fff" />
+		</TouchableOpacity>
+	);
 
 const ChatScreen: React.FC = () => {
 	const route = useRoute<RouteProp<ChatRouteParams, 'Chat'>>();
-	const { friendId, friendName } = route.params ?? { friendId: '', friendName: 'Friend' };
+	const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
 	const currentUser = auth.currentUser;
-	const [messages, setMessages] = useState<Message[]>([]);
+	const { chatId: linkedChatId, friendId: friendParam, friendName: friendNameParam } = route.params ?? {};
+	// Deep links only carry a chat id; a direct chat's id names both members.
+	const linkedPeer = linkedChatId && currentUser ? directChatPeer(linkedChatId, currentUser.uid) : undefined;
+	const roomId = linkedPeer ? undefined : linkedChatId;
+	const friendId = friendParam ?? linkedPeer ?? '';
+	const [chat, setChat] = useState<ChatMeta | null>(null);
+	const [unavailable, setUnavailable] = useState(false);
+	const [following, setFollowing] = useState(false);
+	// Newest first, which the inverted list renders bottom-up, so older pages
+	// grow the list upwards without moving what is already on screen.
+	const [messages, setMessages] = useState<ChatMessage[]>([]);
+	const [loadingOlder, setLoadingOlder] = useState(false);
+	const [hasOlder, setHasOlder] = useState(true);
 	const [text, setText] = useState('');
 	const [allowed, setAllowed] = useState(false);
 	const [loading, setLoading] = useState(true);
 	const [sending, setSending] = useState(false);
+	const [clipProgress, setClipProgress] = useState<number | null>(null);
+	const [activeClipId, setActiveClipId] = useState<string | null>(null);
+	const [selectedMessage, setSelectedMessage] = useState<ChatMessage | null>(null);
+	const [replyTarget, setReplyTarget] = useState<ChatMessage | null>(null);
+	const [editingMessage, setEditingMessage] = useState<ChatMessage | null>(null);
+	const inputRef = useRef<TextInput>(null);
+	const pagerRef = useRef<LivePager | null>(null);
+	const clipAbortRef = useRef<AbortController | null>(null);
 
+	// Groups are opened by id; direct chats are derived from the friend's uid.
 	const chatId = useMemo(() => {
+		if (roomId) {
+			return roomId;
+		}
 		if (!currentUser || !friendId) {
 			return '';
 		}
 		return buildChatId(currentUser.uid, friendId);
-	}, [currentUser, friendId]);
+	}, [currentUser, friendId, roomId]);
+
+	const isGroup = !!roomId || isGroupChat(chat);
+
+	const { typingIds, notifyTyping, clearTyping } = useTypingPresence(chatId, currentUser?.uid);
+
+	const participants = useMemo(() => {
+		if (isGroup) {
+			return chat?.participants ?? [];
+		}
+		return currentUser && friendId ? [currentUser.uid, friendId] : [];
+	}, [chat?.participants, currentUser, friendId, isGroup]);
+
+	const profiles = useProfiles(isGroup ? participants : friendNameParam ? [] : [friendId]);
+	const friendName = friendNameParam ?? profiles[friendId]?.username ?? 'Friend';
+
+	// Having the conversation open clears this user's unread badge and moves
+	// their read marker; the other participants' markers drive the read ticks.
+	useEffect(() => {
+		if (!chatId || !currentUser) {
+			return;
+		}
+		return onSnapshot(
+			chatDoc(chatId),
+			(snapshot) => {
+				const data = snapshot.data({ serverTimestamps: 'estimate' }) as ChatMeta | undefined;
+				setChat(data ?? null);
+				setUnavailable(!!roomId && !data);
+				if ((data?.unreadCounts?.[currentUser.uid] ?? 0) > 0) {
+					markChatRead(chatId, currentUser.uid).catch((error) => console.error('Failed to mark chat read', error));
+				}
+			},
+			(error) => {
+				console.error('Error loading chat', error);
+				setUnavailable(!!roomId);
+			}
+		);
+	}, [chatId, currentUser, roomId]);
+
+	// A message counts as read once every other participant's marker has passed it.
+	const readThrough = useMemo(() => {
+		const others = participants.filter((uid) => uid !== currentUser?.uid);
+		const markers = others.map((uid) => chat?.lastReadAt?.[uid]);
+		if (!others.length || markers.some((marker) => !marker)) {
+			return undefined;
+		}
+		return Math.min(...markers.map((marker) => marker!.toMillis()));
+	}, [chat?.lastReadAt, currentUser?.uid, participants]);
+
+	useEffect(() => {
+		if (isGroup) {
+			navigation.setOptions({
+				title: chat?.name ?? 'Group',
+				headerRight: groupInfoButton(() => navigation.navigate('GroupInfo', { chatId })),
+			});
+		} else if (!friendNameParam) {
+			navigation.setOptions({ title: friendName });
+		}
+	}, [chat?.name, chatId, friendName, friendNameParam, isGroup, navigation]);
+
+	useEffect(() => {
+		if (isGroup) {
+			setAllowed(!!currentUser && participants.includes(currentUser.uid));
+			return;
+		}
+		setAllowed(following);
+	}, [currentUser, following, isGroup, participants]);
 
 	useEffect(() => {
 		if (!currentUser || !friendId) {
-			setAllowed(false);
-			setLoading(false);
+			setFollowing(false);
+			if (!roomId) {
+				setLoading(false);
+			}
 			return;
 		}
 
@@ -78,59 +195,67 @@ const ChatScreen: React.FC = () => {
 		unsubscribers.push(
 			onSnapshot(myFriendRef, (snap) => {
 				iAmFollowing = snap.exists();
-				setAllowed(iAmFollowing && theyFollowMe);
+				setFollowing(iAmFollowing && theyFollowMe);
 			})
 		);
 
 		unsubscribers.push(
 			onSnapshot(theirFriendRef, (snap) => {
 				theyFollowMe = snap.exists();
-				setAllowed(iAmFollowing && theyFollowMe);
+				setFollowing(iAmFollowing && theyFollowMe);
 			})
 		);
 
 		return () => {
 			unsubscribers.forEach((unsub) => unsub());
 		};
-	}, [currentUser, friendId]);
+	}, [currentUser, friendId, roomId]);
 
+	// Messages sent after the screen opened stream in live at the bottom; older
+	// history is listened to page by page as the user scrolls up.
 	useEffect(() => {
 		if (!chatId) {
 			setLoading(false);
 			return;
 		}
-
-		const messagesRef = collection(db, 'chats', chatId, 'messages');
-		const q = query(messagesRef, orderBy('createdAt', 'desc'), limit(50));
-		const unsubscribe = onSnapshot(q, (snapshot) => {
-			const data = snapshot.docs.map((docSnap) => {
-				const payload = docSnap.data() as Partial<Message> & {
-					audioPath?: string;
-					videoPath?: string;
-				};
-				const inferredType: Message['type'] = payload.type
-					? payload.type
-					: payload.audioPath
-					? 'audio'
-					: payload.videoPath
-					? 'video'
-					: 'text';
-				return {
-					id: docSnap.id,
-					senderId: payload.senderId ?? 'unknown',
-					type: inferredType,
-					text: payload.text,
-					createdAt: payload.createdAt,
-				};
-			});
-			setMessages(data);
-			setLoading(false);
+		const pager = createLivePager({
+			source: messagesCollection(chatId),
+			pageSize: MESSAGES_PAGE_SIZE,
+			toItem: toMessage,
+			includeMetadataChanges: true,
+			onChange: (messagesWindow) => {
+				setMessages(messagesWindow.items);
+				setHasOlder(messagesWindow.hasMore);
+				setLoadingOlder(messagesWindow.loadingMore);
+				if (messagesWindow.ready) {
+					setLoading(false);
+				}
+			},
+			onError: (error) => {
+				console.error('Error loading messages', error);
+				Alert.alert('Error', 'Unable to load messages right now.');
+				setLoading(false);
+			},
 		});
-
-		return unsubscribe;
+		pagerRef.current = pager;
+		return () => {
+			pager.dispose();
+			if (pagerRef.current === pager) {
+				pagerRef.current = null;
+			}
+		};
 	}, [chatId]);
 
-	const sendTextMessage = useCallback(async () => {
+	const loadOlder = useCallback(() => {
+		if (!loading && !loadingOlder && hasOlder) {
+			pagerRef.current?.loadMore();
+		}
+	}, [hasOlder, loading, loadingOlder]);
+
+	// Lets a quote notice its original was deleted before the reply itself is updated.
+	const messagesById = useMemo(() => new Map(messages.map((message) => [message.id, message])), [messages]);
+
+	const handleSendText = useCallback(async () => {
 		const trimmed = text.trim();
 		if (!trimmed || !currentUser || !chatId || sending || !allowed) {
 			return;
@@ -138,43 +263,340 @@ const ChatScreen: React.FC = () => {
 
 		try {
 			setSending(true);
-			await addDoc(collection(db, 'chats', chatId, 'messages'), {
-				senderId: currentUser.uid,
-				type: 'text',
-				text: trimmed,
-				createdAt: serverTimestamp(),
-			});
+			if (editingMessage) {
+				if (trimmed !== editingMessage.text) {
+					await editTextMessage(chatId, editingMessage.id, trimmed);
+				}
+				setEditingMessage(null);
+			} else {
+				await sendTextMessage(
+					chatId,
+					currentUser.uid,
+					participants,
+					trimmed,
+					replyTarget ? quoteMessage(replyTarget) : undefined
+				);
+				setReplyTarget(null);
+			}
 			setText('');
-		} catch (error) {
+			clearTyping();
+		} catch (error: any) {
 			console.error('Unable to send message', error);
-			Alert.alert('Error', 'Could not send your message.');
+			Alert.alert('Error', error?.message ?? 'Could not send your message.');
 		} finally {
 			setSending(false);
 		}
-	}, [allowed, chatId, currentUser, sending, text]);
+	}, [allowed, chatId, clearTyping, currentUser, editingMessage, participants, replyTarget, sending, text]);
+
+	const closeActions = useCallback(() => setSelectedMessage(null), []);
+
+	const toggleReaction = useCallback(
+		(message: ChatMessage, emoji: string) => {
+			if (!currentUser || !chatId) {
+				return;
+			}
+			const next = message.reactions?.[currentUser.uid] === emoji ? null : emoji;
+			setReaction(chatId, message.id, currentUser.uid, next).catch((error) => {
+				console.error('Unable to react to message', error);
+				Alert.alert('Error', 'Could not save your reaction.');
+			});
+		},
+		[chatId, currentUser]
+	);
 
-	const renderItem = ({ item }: { item: Message }) => {
+	const startReply = useCallback(() => {
+		if (!selectedMessage) {
+			return;
+		}
+		setEditingMessage(null);
+		setReplyTarget(selectedMessage);
+		setSelectedMessage(null);
+		inputRef.current?.focus();
+	}, [selectedMessage]);
+
+	const startEdit = useCallback(() => {
+		if (!selectedMessage) {
+			return;
+		}
+		setReplyTarget(null);
+		setEditingMessage(selectedMessage);
+		setText(selectedMessage.text ?? '');
+		setSelectedMessage(null);
+		inputRef.current?.focus();
+	}, [selectedMessage]);
+
+	const confirmDelete = useCallback(() => {
+		const target = selectedMessage;
+		setSelectedMessage(null);
+		if (!target || !chatId) {
+			return;
+		}
+		Alert.alert('Delete message?', 'It will be removed for everyone in this chat.', [
+			{ text: 'Cancel', style: 'cancel' },
+			{
+				text: 'Delete',
+				style: 'destructive',
+				onPress: () =>
+					deleteMessage(chatId, target.id).catch((error) => {
+						console.error('Unable to delete message', error);
+						Alert.alert('Error', error?.message ?? 'Could not delete this message.');
+					}),
+			},
+		]);
+	}, [chatId, selectedMessage]);
+
+	const cancelComposerMode = useCallback(() => {
+		if (editingMessage) {
+			setText('');
+		}
+		setEditingMessage(null);
+		setReplyTarget(null);
+	}, [editingMessage]);
+
+	const sendClip = useCallback(
+		async (clip: OutgoingClip) => {
+			if (!currentUser || !chatId || !allowed) {
+				return;
+			}
+			const controller = new AbortController();
+			clipAbortRef.current = controller;
+			setClipProgress(0);
+			try {
+				await sendClipMessage(chatId, currentUser.uid, participants, clip, {
+					signal: controller.signal,
+					onProgress: setClipProgress,
+				});
+			} catch (error: any) {
+				if (!isUploadCancelled(error)) {
+					console.error('Unable to send clip', error);
+					Alert.alert('Error', error?.message ?? 'Could not send your clip.');
+				}
+			} finally {
+				clipAbortRef.current = null;
+				setClipProgress(null);
+			}
+		},
+		[allowed, chatId, currentUser, participants]
+	);
+
+	useEffect(() => () => clipAbortRef.current?.abort(), []);
+
+	const recorder = useVoiceRecorder(sendClip);
+
+	const toggleRecording = useCallback(async () => {
+		try {
+			if (recorder.recording) {
+				const clip = await recorder.stop();
+				if (clip) {
+					await sendClip(clip);
+				}
+				return;
+			}
+			setActiveClipId(null);
+			await recorder.start();
+		} catch (error: any) {
+			console.error('Voice recording failed', error);
+			Alert.alert('Error', error?.message ?? 'Could not record audio.');
+		}
+	}, [recorder, sendClip]);
+
+	const sendPickedVideo = useCallback(
+		(asset?: Asset) => {
+			if (!asset?.uri) {
+				return;
+			}
+			if (asset.duration && asset.duration > MAX_CLIP_SECONDS) {
+				Alert.alert('Clip too long', `Video messages can be up to ${MAX_CLIP_SECONDS} seconds.`);
+				return;
+			}
+			sendClip({
+				type: 'video',
+				durationMs: asset.duration ? Math.round(asset.duration * 1000) : undefined,
+				asset: {
+					uri: asset.uri,
+					type: asset.type ?? 'video/mp4',
+					fileName: asset.fileName,
+					fileSize: asset.fileSize,
+				},
+			});
+		},
+		[sendClip]
+	);
+
+	const pickVideo = useCallback(() => {
+		const options = { mediaType: 'video' as const, durationLimit: MAX_CLIP_SECONDS, videoQuality: 'medium' as const };
+		Alert.alert('Video message', undefined, [
+			{
+				text: 'Record',
+				onPress: () =>
+					launchCamera(options)
+						.then((result) => sendPickedVideo(result.assets?.[0]))
+						.catch((error) => console.error('Camera failed', error)),
+			},
+			{
+				text: 'Choose from library',
+				onPress: () =>
+					launchImageLibrary({ ...options, selectionLimit: 1 })
+						.then((result) => sendPickedVideo(result.assets?.[0]))
+						.catch((error) => console.error('Picker failed', error)),
+			},
+			{ text: 'Cancel', style: 'cancel' },
+		]);
+	}, [sendPickedVideo]);
+
+	const handleChangeText = useCallback(
+		(value: string) => {
+			setText(value);
+			if (value.trim()) {
+				notifyTyping();
+			} else {
+				clearTyping();
+			}
+		},
+		[clearTyping, notifyTyping]
+	);
+
+	const receiptIcon = (message: ChatMessage) => {
+		if (message.pending) {
+			return 'time-outline';
+		}
+		const read = readThrough !== undefined && !!message.createdAt && message.createdAt.toMillis() <= readThrough;
+		return read ? 'checkmark-done' : 'checkmark';
+	};
+
+	const senderLabel = (senderId: string) => {
+		if (senderId === currentUser?.uid) {
+			return 'You';
+		}
+		return isGroup ? profiles[senderId]?.username ?? 'Member' : friendName;
+	};
+
+	const storyLabel = (story: StoryQuote) => {
+		const owner = story.ownerId === currentUser?.uid ? 'your' : `${senderLabel(story.ownerId)}'s`;
+		return `${story.reaction ? 'Reacted to' : 'Replied to'} ${owner} story`;
+	};
+
+	const subtitle = () => {
+		if (typingIds.length) {
+			if (!isGroup) {
+				return 'typing…';
+			}
+			return typingIds.length === 1
+				? `${senderLabel(typingIds[0])} is typing…`
+				: `${typingIds.length} people are typing…`;
+		}
+		if (unavailable) {
+			return 'This chat is unavailable';
+		}
+		if (isGroup) {
+			return allowed ? `${participants.length} members` : 'You are no longer in this group';
+		}
+		return allowed ? 'You are connected' : 'Add each other as friends to chat';
+	};
+
+	const renderItem = ({ item }: { item: ChatMessage }) => {
 		const isMine = item.senderId === currentUser?.uid;
-		const messageText = item.text?.trim().length
-			? item.text
-			: item.type && item.type !== 'text'
-			? 'Media message not supported'
-			: 'Message unavailable';
-		return (
-			<View style={[styles.bubbleRow, isMine ? styles.rowEnd : styles.rowStart]}>
-				<View style={[styles.bubble, isMine ? styles.bubbleMine : styles.bubbleFriend]}>
-					<Text style={[styles.bubbleText, !isMine && styles.bubbleTextFriend]}>{messageText}</Text>
+		const isClip = (item.type === 'audio' || item.type === 'video') && !!item.mediaUrl;
+		const messageText = item.text?.trim().length ? item.text : 'Message unavailable';
+		const reactionCounts = Object.values(item.reactions ?? {}).reduce<Record<string, number>>((counts, emoji) => {
+			counts[emoji] = (counts[emoji] ?? 0) + 1;
+			return counts;
+		}, {});
+		const myReaction = currentUser ? item.reactions?.[currentUser.uid] : undefined;
+
+		if (item.deleted) {
+			return (
+				<View style={[styles.bubbleRow, isMine ? styles.rowEnd : styles.rowStart]}>
+					<View style={[styles.bubble, styles.bubbleDeleted]}>
+						<Text style={styles.deletedText}>This message was deleted</Text>
+					</View>
 				</View>
+			);
+		}
+
+		return (
+			<View style={[styles.bubbleColumn, isMine ? styles.columnEnd : styles.columnStart]}>
+				{isGroup && !isMine ? <Text style={styles.senderName}>{senderLabel(item.senderId)}</Text> : null}
+				<Pressable
+					onLongPress={() => setSelectedMessage(item)}
+					delayLongPress={300}
+					style={[styles.bubble, isMine ? styles.bubbleMine : styles.bubbleFriend]}
+				>
+					{item.story ? (
+						<View style={[styles.quote, styles.storyQuote, isMine ? styles.quoteMine : styles.quoteFriend]}>
+							{item.story.mediaType === 'video' ? (
+								<View style={[styles.storyThumb, styles.storyThumbVideo]}>
+									<Icon name="play" size={18} color="#fff" />
+								</View>
+							) : (
+								<Image source={{ uri: item.story.mediaUrl }} style={styles.storyThumb} />
+							)}
+							<Text style={[styles.quoteText, !isMine && styles.bubbleTextFriend]}>
+								{storyLabel(item.story)}
+							</Text>
+						</View>
+					) : null}
+					{item.replyTo ? (
+						<View style={[styles.quote, isMine ? styles.quoteMine : styles.quoteFriend]}>
+							<Text style={[styles.quoteAuthor, !isMine && styles.bubbleTextFriend]}>
+								{senderLabel(item.replyTo.senderId)}
+							</Text>
+							<Text style={[styles.quoteText, !isMine && styles.bubbleTextFriend]} numberOfLines={2}>
+								{previewText(
+									messagesById.get(item.replyTo.id)?.deleted ? { ...item.replyTo, deleted: true } : item.replyTo
+								)}
+							</Text>
+						</View>
+					) : null}
+					{isClip ? (
+						<ClipPlayer
+							uri={item.mediaUrl!}
+							type={item.type as 'audio' | 'video'}
+							durationMs={item.durationMs}
+							active={activeClipId === item.id}
+							onPlay={() => setActiveClipId(item.id)}
+							onStop={() => setActiveClipId((current) => (current === item.id ? null : current))}
+							tint={isMine ? '#0f1419' : '#d8e3f0'}
+						/>
+					) : (
+						<Text style={[styles.bubbleText, !isMine && styles.bubbleTextFriend]}>{messageText}</Text>
+					)}
+					{item.editedAt || isMine ? (
+						<View style={styles.metaRow}>
+							{item.editedAt ? (
+								<Text style={[styles.editedText, !isMine && styles.bubbleTextFriend]}>edited</Text>
+							) : null}
+							{isMine ? <Icon name={receiptIcon(item)} size={14} color="#0f1419" style={styles.receipt} /> : null}
+						</View>
+					) : null}
+				</Pressable>
+				{Object.keys(reactionCounts).length ? (
+					<View style={styles.reactionRow}>
+						{Object.entries(reactionCounts).map(([emoji, count]) => (
+							<TouchableOpacity
+								key={emoji}
+								style={[styles.reactionChip, myReaction === emoji && styles.reactionChipMine]}
+								onPress={() => toggleReaction(item, emoji)}
+							>
+								<Text style={styles.reactionText}>
+									{emoji} {count}
+								</Text>
+							</TouchableOpacity>
+						))}
+					</View>
+				) : null}
 			</View>
 		);
 	};
 
+	const composerLocked = !allowed || sending || clipProgress !== null;
+
 	return (
 		<SafeAreaView style={styles.safeArea}>
 			<KeyboardAvoidingView style={styles.flex} behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
 				<View style={styles.header}>
-					<Text style={styles.headerTitle}>{friendName}</Text>
-					<Text style={styles.headerSubtitle}>{allowed ? 'You are connected' : 'Add each other as friends to chat'}</Text>
+					<Text style={styles.headerTitle}>{isGroup ? chat?.name ?? 'Group' : friendName}</Text>
+					<Text style={[styles.headerSubtitle, typingIds.length > 0 && styles.typingText]}>{subtitle()}</Text>
 				</View>
 
 				{loading ? (
@@ -187,29 +609,108 @@ const ChatScreen: React.FC = () => {
 						inverted
 						keyExtractor={(item) => item.id}
 						renderItem={renderItem}
+						extraData={[activeClipId, readThrough, profiles]}
+						keyboardShouldPersistTaps="handled"
 						contentContainerStyle={styles.listContent}
+						onEndReached={loadOlder}
+						onEndReachedThreshold={0.3}
+						ListFooterComponent={loadingOlder ? <ActivityIndicator style={styles.olderLoader} /> : null}
 						ListEmptyComponent={<Text style={styles.emptyText}>Start the conversation</Text>}
 					/>
 				)}
 
+				<MessageActionsSheet
+					visible={!!selectedMessage}
+					currentReaction={selectedMessage && currentUser ? selectedMessage.reactions?.[currentUser.uid] : undefined}
+					canEdit={!!selectedMessage && selectedMessage.senderId === currentUser?.uid && selectedMessage.type === 'text'}
+					canDelete={!!selectedMessage && selectedMessage.senderId === currentUser?.uid}
+					onClose={closeActions}
+					onReact={(emoji) => {
+						if (selectedMessage) {
+							toggleReaction(selectedMessage, emoji);
+						}
+						closeActions();
+					}}
+					onReply={startReply}
+					onEdit={startEdit}
+					onDelete={confirmDelete}
+				/>
+
 				<View style={styles.inputWrapper}>
-					<View style={styles.inputRow}>
-						<TextInput
-							style={styles.input}
-							placeholder="Message..."
-							placeholderTextColor="#8c8c8c"
-							value={text}
-							onChangeText={setText}
-							editable={allowed && !sending}
-						/>
-						<TouchableOpacity
-							style={[styles.sendButton, (!allowed || sending) && styles.disabledButton]}
-							onPress={sendTextMessage}
-							disabled={!allowed || sending}
-						>
-							<Text style={styles.sendLabel}>Send</Text>
-						</TouchableOpacity>
-					</View>
+					{replyTarget || editingMessage ? (
+						<View style={styles.statusRow}>
+							<Icon name={editingMessage ? 'create-outline' : 'arrow-undo-outline'} size={18} color="#2dd4bf" />
+							<Text style={styles.statusText} numberOfLines={1}>
+								{editingMessage
+									? 'Editing message'
+									: `Replying to ${senderLabel(replyTarget!.senderId)}: ${previewText(quoteMessage(replyTarget!))}`}
+							</Text>
+							<TouchableOpacity onPress={cancelComposerMode} hitSlop={8}>
+								<Icon name="close-circle" size={22} color="#73859b" />
+							</TouchableOpacity>
+						</View>
+					) : null}
+					{clipProgress !== null ? (
+						<View style={styles.statusRow}>
+							<ActivityIndicator color="#2dd4bf" />
+							<Text style={styles.statusText}>Sending clip… {Math.round(clipProgress * 100)}%</Text>
+							<TouchableOpacity onPress={() => clipAbortRef.current?.abort()} hitSlop={8}>
+								<Icon name="close-circle" size={22} color="#73859b" />
+							</TouchableOpacity>
+						</View>
+					) : null}
+					{recorder.recording ? (
+						<View style={styles.inputRow}>
+							<TouchableOpacity style={styles.iconButton} onPress={recorder.cancel} hitSlop={8}>
+								<Icon name="trash-outline" size={22} color="#f87171" />
+							</TouchableOpacity>
+							<View style={styles.recordingPill}>
+								<View style={styles.recordingDot} />
+								<Text style={styles.statusText}>
+									Recording {formatDuration(recorder.elapsedMs)} / {formatDuration(MAX_CLIP_SECONDS * 1000)}
+								</Text>
+							</View>
+							<TouchableOpacity style={styles.sendButton} onPress={toggleRecording}>
+								<Text style={styles.sendLabel}>Send</Text>
+							</TouchableOpacity>
+						</View>
+					) : (
+						<View style={styles.inputRow}>
+							<TouchableOpacity
+								style={[styles.iconButton, composerLocked && styles.disabledButton]}
+								onPress={pickVideo}
+								disabled={composerLocked}
+							>
+								<Icon name="videocam-outline" size={24} color="#2dd4bf" />
+							</TouchableOpacity>
+							<TextInput
+								ref={inputRef}
+								style={styles.input}
+								placeholder="Message..."
+								placeholderTextColor="#8c8c8c"
+								value={text}
+								onChangeText={handleChangeText}
+								editable={allowed && !sending}
+							/>
+							{text.trim().length ? (
+								<TouchableOpacity
+									style={[styles.sendButton, (!allowed || sending) && styles.disabledButton]}
+									onPress={handleSendText}
+									disabled={!allowed || sending}
+								>
+									<Text style={styles.sendLabel}>Send</Text>
+								</TouchableOpacity>
+							) : (
+								<TouchableOpacity
+									style={[styles.micButton, composerLocked && styles.disabledButton]}
+									onPress={toggleRecording}
+									disabled={composerLocked}
+								>
+									<Icon name="mic" size={22} color="#0f1419" />
+								</TouchableOpacity>
+							)}
+						</View>
+					)}
 				</View>
 			</KeyboardAvoidingView>
 			</SafeAreaView>
@@ -245,6 +746,9 @@ const ChatScreen: React.FC = () => {
 		paddingHorizontal: 16,
 		paddingBottom: 12,
 	},
+	olderLoader: {
+		paddingVertical: 12,
+	},
 	emptyText: {
 		color: '#73859b',
 		textAlign: 'center',
@@ -273,6 +777,108 @@ const ChatScreen: React.FC = () => {
 		backgroundColor: '#151f28',
 		borderBottomLeftRadius: 4,
 	},
+	receipt: {
+		opacity: 0.7,
+	},
+	metaRow: {
+		flexDirection: 'row',
+		justifyContent: 'flex-end',
+		alignItems: 'center',
+		gap: 4,
+		marginTop: 2,
+	},
+	editedText: {
+		fontSize: 11,
+		color: '#0f1419',
+		opacity: 0.7,
+	},
+	senderName: {
+		color: '#73859b',
+		fontSize: 12,
+		marginBottom: 2,
+		marginLeft: 4,
+	},
+	bubbleColumn: {
+		marginBottom: 12,
+	},
+	columnEnd: {
+		alignItems: 'flex-end',
+	},
+	columnStart: {
+		alignItems: 'flex-start',
+	},
+	bubbleDeleted: {
+		borderWidth: 1,
+		borderColor: '#26323f',
+	},
+	deletedText: {
+		color: '#73859b',
+		fontStyle: 'italic',
+	},
+	quote: {
+		borderLeftWidth: 3,
+		borderRadius: 8,
+		paddingHorizontal: 8,
+		paddingVertical: 4,
+		marginBottom: 6,
+	},
+	quoteMine: {
+		borderLeftColor: '#0f1419',
+		backgroundColor: 'rgba(15, 20, 25, 0.12)',
+	},
+	quoteFriend: {
+		borderLeftColor: '#2dd4bf',
+		backgroundColor: 'rgba(255, 255, 255, 0.06)',
+	},
+	storyQuote: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		gap: 8,
+	},
+	storyThumb: {
+		width: 40,
+		height: 64,
+		borderRadius: 6,
+		backgroundColor: '#26323f',
+	},
+	storyThumbVideo: {
+		alignItems: 'center',
+		justifyContent: 'center',
+	},
+	quoteAuthor: {
+		fontSize: 12,
+		fontWeight: '700',
+		color: '#0f1419',
+	},
+	quoteText: {
+		fontSize: 13,
+		color: '#0f1419',
+	},
+	reactionRow: {
+		flexDirection: 'row',
+		flexWrap: 'wrap',
+		gap: 4,
+		marginTop: -6,
+	},
+	reactionChip: {
+		backgroundColor: '#151f28',
+		borderRadius: 999,
+		paddingHorizontal: 8,
+		paddingVertical: 2,
+		borderWidth: 1,
+		borderColor: '#0f1419',
+	},
+	reactionChipMine: {
+		borderColor: '#2dd4bf',
+	},
+	reactionText: {
+		color: '#d8e3f0',
+		fontSize: 12,
+	},
+	typingText: {
+		color: '#2dd4bf',
+		fontStyle: 'italic',
+	},
 	bubbleText: {
 		color: '#0f1419',
 	},
@@ -305,6 +911,42 @@ const ChatScreen: React.FC = () => {
 	disabledButton: {
 		opacity: 0.4,
 	},
+	iconButton: {
+		padding: 4,
+	},
+	micButton: {
+		backgroundColor: '#2dd4bf',
+		borderRadius: 999,
+		width: 44,
+		height: 44,
+		alignItems: 'center',
+		justifyContent: 'center',
+	},
+	recordingPill: {
+		flex: 1,
+		flexDirection: 'row',
+		alignItems: 'center',
+		gap: 8,
+		backgroundColor: '#151f28',
+		borderRadius: 999,
+		paddingHorizontal: 16,
+		paddingVertical: 12,
+	},
+	recordingDot: {
+		width: 10,
+		height: 10,
+		borderRadius: 5,
+		backgroundColor: '#f87171',
+	},
+	statusRow: {
+		flexDirection: 'row',
+		alignItems: 'center',
+		gap: 8,
+	},
+	statusText: {
+		flex: 1,
+		color: '#d8e3f0',
+	},
 	sendLabel: {
 		color: '#0f1419',
 		fontWeight: '600',
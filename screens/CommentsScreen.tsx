@@ -0,0 +1,496 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  KeyboardAvoidingView,
+  Platform,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import Icon from 'react-native-vector-icons/Ionicons';
+import { onSnapshot, orderBy, query, QueryDocumentSnapshot, Timestamp } from 'firebase/firestore';
+import Avatar from '../components/ui/Avatar';
+import { auth } from '../services/firebase';
+import {
+  addComment,
+  COMMENTS_PAGE_SIZE,
+  CommentReply,
+  commentsCollection,
+  deleteComment,
+  deleteReply,
+  PostComment,
+  repliesCollection,
+} from '../services/comments';
+import { createLivePager, LivePager } from '../services/livePager';
+import { UserProfile } from '../services/profiles';
+import { useProfiles } from '../hooks/useProfiles';
+import { formatRelativeTime } from '../utils/format';
+import { palette, spacing } from '../theme/tokens';
+import { RootStackParamList } from '../types/navigation';
+
+type Props = NativeStackScreenProps<RootStackParamList, 'Comments'>;
+
+type ReplyTarget = {
+  commentId: string;
+  username: string;
+};
+
+const toComment = (docSnap: QueryDocumentSnapshot): PostComment => {
+  const data = docSnap.data({ serverTimestamps: 'estimate' }) as Omit<PostComment, 'id'>;
+  return { ...data, id: docSnap.id };
+};
+
+const CommentsScreen: React.FC<Props> = ({ route }) => {
+  const { postId, postOwnerId } = route.params;
+  const currentUser = auth.currentUser;
+  const [comments, setComments] = useState<PostComment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(true);
+  const [text, setText] = useState('');
+  const [sending, setSending] = useState(false);
+  const [replyTarget, setReplyTarget] = useState<ReplyTarget | null>(null);
+  const [replyAuthors, setReplyAuthors] = useState<string[]>([]);
+  const pagerRef = useRef<LivePager | null>(null);
+  const inputRef = useRef<TextInput>(null);
+
+  // Comments created after the screen opened stream in live; older history is read page by page.
+  useEffect(() => {
+    const pager = createLivePager({
+      source: commentsCollection(postId),
+      pageSize: COMMENTS_PAGE_SIZE,
+      toItem: toComment,
+      onChange: (commentsWindow) => {
+        setComments(commentsWindow.items);
+        setHasMore(commentsWindow.hasMore);
+        setLoadingMore(commentsWindow.loadingMore);
+        if (commentsWindow.ready) {
+          setLoading(false);
+        }
+      },
+      onError: (error) => {
+        console.error('Error loading comments', error);
+        Alert.alert('Error', 'Unable to load comments right now.');
+        setLoading(false);
+      },
+    });
+    pagerRef.current = pager;
+    return () => {
+      pager.dispose();
+      if (pagerRef.current === pager) {
+        pagerRef.current = null;
+      }
+    };
+  }, [postId]);
+
+  const handleEndReached = useCallback(() => {
+    if (!loading && !loadingMore && hasMore) {
+      pagerRef.current?.loadMore();
+    }
+  }, [hasMore, loading, loadingMore]);
+
+  const profiles = useProfiles([
+    ...comments.map((comment) => comment.userId),
+    ...replyAuthors,
+  ]);
+
+  const registerReplyAuthors = useCallback((uids: string[]) => {
+    setReplyAuthors((prev) => {
+      const missing = uids.filter((uid) => !prev.includes(uid));
+      return missing.length ? [...prev, ...missing] : prev;
+    });
+  }, []);
+
+  const canDelete = useCallback(
+    (authorId: string) => !!currentUser && (authorId === currentUser.uid || postOwnerId === currentUser.uid),
+    [currentUser, postOwnerId]
+  );
+
+  const startReply = useCallback((commentId: string, username: string) => {
+    setReplyTarget({ commentId, username });
+    inputRef.current?.focus();
+  }, []);
+
+  const submit = useCallback(async () => {
+    const trimmed = text.trim();
+    if (!currentUser || !trimmed || sending) {
+      return;
+    }
+
+    setSending(true);
+    try {
+      await addComment(postId, currentUser.uid, trimmed, replyTarget?.commentId);
+      setText('');
+      setReplyTarget(null);
+    } catch (error: any) {
+      console.error('Error adding comment', error);
+      Alert.alert('Error', error?.message ?? 'Unable to post comment right now.');
+    } finally {
+      setSending(false);
+    }
+  }, [currentUser, postId, replyTarget?.commentId, sending, text]);
+
+  const confirmDelete = useCallback(
+    (commentId: string, replyId?: string) => {
+      Alert.alert(replyId ? 'Delete reply?' : 'Delete comment?', 'This action cannot be undone.', [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              if (replyId) {
+                await deleteReply(postId, commentId, replyId);
+              } else {
+                await deleteComment(postId, commentId);
+                if (replyTarget?.commentId === commentId) {
+                  setReplyTarget(null);
+                }
+              }
+            } catch (error) {
+              console.error('Error deleting comment', error);
+              Alert.alert('Delete failed', 'Unable to delete this comment right now.');
+            }
+          },
+        },
+      ]);
+    },
+    [postId, replyTarget?.commentId]
+  );
+
+  const renderItem = useCallback(
+    ({ item }: { item: PostComment }) => (
+      <CommentThread
+        postId={postId}
+        comment={item}
+        profiles={profiles}
+        currentUserId={currentUser?.uid ?? ''}
+        canDelete={canDelete}
+        onReply={startReply}
+        onDelete={confirmDelete}
+        onRepliesLoaded={registerReplyAuthors}
+      />
+    ),
+    [canDelete, confirmDelete, currentUser?.uid, postId, profiles, registerReplyAuthors, startReply]
+  );
+
+  return (
+    <SafeAreaView style={styles.safeArea} edges={['right', 'bottom', 'left']}>
+      <KeyboardAvoidingView
+        style={styles.flex}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        keyboardVerticalOffset={Platform.OS === 'ios' ? 100 : 0}
+      >
+        {loading ? (
+          <View style={styles.loader}>
+            <ActivityIndicator color={palette.primary} size="large" />
+          </View>
+        ) : (
+          <FlatList
+            data={comments}
+            keyExtractor={(item) => item.id}
+            renderItem={renderItem}
+            onEndReached={handleEndReached}
+            onEndReachedThreshold={0.4}
+            contentContainerStyle={[styles.listContent, comments.length === 0 && styles.flexGrow]}
+            ListEmptyComponent={<Text style={styles.emptyText}>No comments yet. Start the conversation.</Text>}
+            ListFooterComponent={loadingMore ? <ActivityIndicator color={palette.primary} /> : null}
+            keyboardShouldPersistTaps="handled"
+          />
+        )}
+
+        <View style={styles.composer}>
+          {replyTarget ? (
+            <View style={styles.replyBanner}>
+              <Text style={styles.replyBannerText}>Replying to {replyTarget.username}</Text>
+              <TouchableOpacity onPress={() => setReplyTarget(null)} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+                <Icon name="close" size={16} color={palette.textMuted} />
+              </TouchableOpacity>
+            </View>
+          ) : null}
+          <View style={styles.inputRow}>
+            <TextInput
+              ref={inputRef}
+              style={styles.input}
+              placeholder={replyTarget ? 'Write a reply' : 'Add a comment'}
+              placeholderTextColor={palette.textMuted}
+              value={text}
+              onChangeText={setText}
+              editable={!sending}
+              multiline
+            />
+            <TouchableOpacity onPress={submit} disabled={sending || !text.trim()} style={styles.sendButton}>
+              <Icon name="send" size={18} color={sending || !text.trim() ? palette.textDisabled : palette.primary} />
+            </TouchableOpacity>
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+type CommentThreadProps = {
+  postId: string;
+  comment: PostComment;
+  profiles: Record<string, UserProfile>;
+  currentUserId: string;
+  canDelete: (authorId: string) => boolean;
+  onReply: (commentId: string, username: string) => void;
+  onDelete: (commentId: string, replyId?: string) => void;
+  onRepliesLoaded: (uids: string[]) => void;
+};
+
+const CommentThread: React.FC<CommentThreadProps> = ({
+  postId,
+  comment,
+  profiles,
+  currentUserId,
+  canDelete,
+  onReply,
+  onDelete,
+  onRepliesLoaded,
+}) => {
+  const [expanded, setExpanded] = useState(false);
+  const [replies, setReplies] = useState<CommentReply[]>([]);
+  const repliesCount = comment.repliesCount ?? 0;
+
+  useEffect(() => {
+    if (!expanded) {
+      return;
+    }
+    const repliesQuery = query(repliesCollection(postId, comment.id), orderBy('createdAt', 'asc'));
+    return onSnapshot(
+      repliesQuery,
+      (snapshot) => {
+        const items = snapshot.docs.map((docSnap) => {
+          const data = docSnap.data({ serverTimestamps: 'estimate' }) as Omit<CommentReply, 'id'>;
+          return { ...data, id: docSnap.id };
+        });
+        setReplies(items);
+        onRepliesLoaded(items.map((reply) => reply.userId));
+      },
+      (error) => console.error('Error loading replies', error)
+    );
+  }, [comment.id, expanded, onRepliesLoaded, postId]);
+
+  // A new reply from this device should be visible without an extra tap.
+  const previousCount = useRef(repliesCount);
+  useEffect(() => {
+    if (repliesCount > previousCount.current) {
+      setExpanded(true);
+    }
+    previousCount.current = repliesCount;
+  }, [repliesCount]);
+
+  const authorName = (userId: string) =>
+    userId === currentUserId ? 'You' : profiles[userId]?.username || 'Unknown user';
+  const mentionName = (userId: string) => profiles[userId]?.username || 'this comment';
+
+  return (
+    <View style={styles.thread}>
+      <CommentBody
+        username={authorName(comment.userId)}
+        photoUrl={profiles[comment.userId]?.photoUrl}
+        text={comment.text}
+        createdAt={comment.createdAt}
+        onReply={() => onReply(comment.id, mentionName(comment.userId))}
+        onDelete={canDelete(comment.userId) ? () => onDelete(comment.id) : undefined}
+      />
+
+      {repliesCount > 0 ? (
+        <TouchableOpacity onPress={() => setExpanded((value) => !value)} style={styles.toggleReplies}>
+          <View style={styles.toggleLine} />
+          <Text style={styles.toggleText}>
+            {expanded ? 'Hide replies' : `View ${repliesCount} ${repliesCount === 1 ? 'reply' : 'replies'}`}
+          </Text>
+        </TouchableOpacity>
+      ) : null}
+
+      {expanded
+        ? replies.map((reply) => (
+            <View key={reply.id} style={styles.reply}>
+              <CommentBody
+                compact
+                username={authorName(reply.userId)}
+                photoUrl={profiles[reply.userId]?.photoUrl}
+                text={reply.text}
+                createdAt={reply.createdAt}
+                // Replies stay one level deep: answering a reply answers its thread.
+                onReply={() => onReply(comment.id, mentionName(reply.userId))}
+                onDelete={canDelete(reply.userId) ? () => onDelete(comment.id, reply.id) : undefined}
+              />
+            </View>
+          ))
+        : null}
+    </View>
+  );
+};
+
+type CommentBodyProps = {
+  username: string;
+  photoUrl?: string;
+  text: string;
+  createdAt?: Timestamp;
+  compact?: boolean;
+  onReply: () => void;
+  onDelete?: () => void;
+};
+
+const CommentBody: React.FC<CommentBodyProps> = ({
+  username,
+  photoUrl,
+  text,
+  createdAt,
+  compact,
+  onReply,
+  onDelete,
+}) => (
+  <View style={styles.commentRow}>
+    <Avatar label={username} uri={photoUrl} size={compact ? 28 : 36} />
+    <View style={styles.commentContent}>
+      <Text style={styles.commentText}>
+        <Text style={styles.commentAuthor}>{username} </Text>
+        {text}
+      </Text>
+      <View style={styles.commentMeta}>
+        <Text style={styles.metaText}>{formatRelativeTime(createdAt)}</Text>
+        <TouchableOpacity onPress={onReply}>
+          <Text style={styles.metaAction}>Reply</Text>
+        </TouchableOpacity>
+        {onDelete ? (
+          <TouchableOpacity onPress={onDelete}>
+            <Text style={[styles.metaAction, styles.deleteAction]}>Delete</Text>
+          </TouchableOpacity>
+        ) : null}
+      </View>
+    </View>
+  </View>
+);
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: palette.background,
+  },
+  flex: {
+    flex: 1,
+  },
+  loader: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  listContent: {
+    padding: spacing.lg,
+    gap: spacing.lg,
+  },
+  flexGrow: {
+    flexGrow: 1,
+    justifyContent: 'center',
+  },
+  emptyText: {
+    color: palette.textMuted,
+    textAlign: 'center',
+  },
+  thread: {
+    gap: spacing.sm,
+  },
+  commentRow: {
+    flexDirection: 'row',
+    gap: spacing.md,
+  },
+  commentContent: {
+    flex: 1,
+    gap: spacing.xs,
+  },
+  commentText: {
+    color: palette.text,
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  commentAuthor: {
+    fontWeight: '600',
+  },
+  commentMeta: {
+    flexDirection: 'row',
+    gap: spacing.lg,
+  },
+  metaText: {
+    color: palette.textMuted,
+    fontSize: 12,
+  },
+  metaAction: {
+    color: palette.textSecondary,
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  deleteAction: {
+    color: palette.danger,
+  },
+  toggleReplies: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    marginLeft: 48,
+  },
+  toggleLine: {
+    width: 24,
+    height: 1,
+    backgroundColor: palette.borderLight,
+  },
+  toggleText: {
+    color: palette.textMuted,
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  reply: {
+    marginLeft: 48,
+  },
+  composer: {
+    borderTopWidth: 1,
+    borderTopColor: palette.border,
+    padding: spacing.md,
+    gap: spacing.sm,
+    backgroundColor: palette.surface,
+  },
+  replyBanner: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  replyBannerText: {
+    color: palette.textMuted,
+    fontSize: 12,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  input: {
+    flex: 1,
+    maxHeight: 120,
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+    borderRadius: 20,
+    backgroundColor: palette.surfaceAlt,
+    color: palette.text,
+    fontSize: 14,
+  },
+  sendButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: palette.surfaceElevated,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+});
+
+export default CommentsScreen;
@@ -0,0 +1,75 @@
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import Icon from 'react-native-vector-icons/Ionicons';
+import Screen from '../components/ui/Screen';
+import Surface from '../components/ui/Surface';
+import { AppProfile, ConfigIssue } from '../services/config';
+import { palette, spacing, typography } from '../theme/tokens';
+
+type Props = {
+  profile: AppProfile;
+  issues: ConfigIssue[];
+};
+
+const ConfigErrorScreen: React.FC<Props> = ({ profile, issues }) => {
+  return (
+    <Screen scrollable contentContainerStyle={styles.container}>
+      <View style={styles.header}>
+        <Icon name="construct-outline" size={40} color={palette.warning} />
+        <Text style={styles.title}>App is not configured</Text>
+        <Text style={styles.description}>
+          The {profile} build is missing required settings. Update your env file and restart Metro with
+          --reset-cache.
+        </Text>
+      </View>
+
+      <Surface padding="lg" style={styles.issues}>
+        {issues.map((issue) => (
+          <View key={`${issue.key}-${issue.message}`} style={styles.issueRow}>
+            <Icon name="alert-circle" size={18} color={palette.danger} />
+            <Text style={styles.issueText}>
+              <Text style={styles.issueKey}>{issue.key}</Text> {issue.message}
+            </Text>
+          </View>
+        ))}
+      </Surface>
+    </Screen>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexGrow: 1,
+    justifyContent: 'center',
+    gap: spacing.xl,
+  },
+  header: {
+    alignItems: 'center',
+    gap: spacing.md,
+  },
+  title: {
+    ...typography.title,
+  },
+  description: {
+    ...typography.bodySmall,
+    textAlign: 'center',
+  },
+  issues: {
+    gap: spacing.md,
+  },
+  issueRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: spacing.sm,
+  },
+  issueText: {
+    ...typography.bodySmall,
+    flex: 1,
+  },
+  issueKey: {
+    color: palette.text,
+    fontWeight: '600',
+  },
+});
+
+export default ConfigErrorScreen;
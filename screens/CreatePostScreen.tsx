@@ -1,11 +1,18 @@
-import React, { useCallback, useMemo, useState } from 'react';
-import { ActivityIndicator, Alert, Image, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import React, { useCallback, useEffect, useState } from 'react';
+import { Alert, Image, ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
 import { launchImageLibrary, Asset } from 'react-native-image-picker';
 import Video from 'react-native-video';
-import axios from 'axios';
-import { addDoc, collection, serverTimestamp, Timestamp } from 'firebase/firestore';
-import { auth, db } from '../services/firebase';
-import { cloudinaryUploadPreset, cloudinaryUrl } from '../services/cloudinary';
+import Icon from 'react-native-vector-icons/Ionicons';
+import { auth } from '../services/firebase';
+import {
+  discardUpload,
+  enqueueUpload,
+  isFullyUploaded,
+  QueuedUpload,
+  retryUpload,
+  subscribeToUploadQueue,
+} from '../services/uploadQueue';
+import { MAX_POST_MEDIA } from '../services/posts';
 import Screen from '../components/ui/Screen';
 import Button from '../components/ui/Button';
 import Surface from '../components/ui/Surface';
@@ -13,37 +20,52 @@ import { palette, spacing, typography } from '../theme/tokens';
 
 type MediaAsset = Asset & { mediaType?: 'photo' | 'video' };
 
-const STORY_TTL_MS = 24 * 60 * 60 * 1000;
+const resolveType = (asset: MediaAsset) =>
+  asset.type?.startsWith('video') || asset.mediaType === 'video' ? 'video' : 'image';
 
-const CreatePostScreen: React.FC = ({ navigation }: any) => {
-  const [media, setMedia] = useState<MediaAsset | null>(null);
+const CreatePostScreen: React.FC = () => {
+  const [media, setMedia] = useState<MediaAsset[]>([]);
   const [caption, setCaption] = useState('');
-  const [uploading, setUploading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
   const [shareTarget, setShareTarget] = useState<'post' | 'story'>('post');
+  const [queue, setQueue] = useState<QueuedUpload[]>([]);
 
   const currentUser = auth.currentUser;
 
-  const resolvedType = useMemo(() => {
-    if (!media) {
-      return 'image';
-    }
-    return media.type?.startsWith('video') || media.mediaType === 'video' ? 'video' : 'image';
-  }, [media]);
+  useEffect(() => {
+    return subscribeToUploadQueue((items) => {
+      setQueue(items.filter((item) => item.ownerId === currentUser?.uid));
+    });
+  }, [currentUser?.uid]);
 
   const handleSelectMedia = useCallback(async () => {
     try {
-      const result = await launchImageLibrary({ mediaType: 'mixed', selectionLimit: 1 });
+      const result = await launchImageLibrary({
+        mediaType: 'mixed',
+        selectionLimit: shareTarget === 'story' ? 1 : MAX_POST_MEDIA,
+      });
       if (result.didCancel) {
         return;
       }
-      const asset = result.assets?.[0];
-      if (asset) {
-        setMedia(asset);
+      const assets = (result.assets ?? []).filter((asset) => !!asset.uri);
+      if (assets.length) {
+        setMedia(assets.slice(0, MAX_POST_MEDIA));
       }
     } catch (error) {
       console.error('Image picker error', error);
       Alert.alert('Error', 'Unable to access media library.');
     }
+  }, [shareTarget]);
+
+  const handleSelectTarget = useCallback((target: 'post' | 'story') => {
+    setShareTarget(target);
+    if (target === 'story') {
+      setMedia((current) => current.slice(0, 1));
+    }
+  }, []);
+
+  const removeMedia = useCallback((uri?: string) => {
+    setMedia((current) => current.filter((asset) => asset.uri !== uri));
   }, []);
 
   const handleCreatePost = useCallback(async () => {
@@ -51,71 +73,47 @@ const CreatePostScreen: React.FC = ({ navigation }: any) => {
       Alert.alert('Authentication required', 'Please sign in to create a post.');
       return;
     }
-    if (!media || !media.uri) {
+    if (!media.length) {
       Alert.alert('Select media', 'Pick an image or video to continue.');
       return;
     }
-    if (!cloudinaryUrl || !cloudinaryUploadPreset) {
-      Alert.alert('Missing configuration', 'Cloudinary credentials are not set.');
-      return;
-    }
 
     try {
-      setUploading(true);
-      const formData = new FormData();
-      const file = {
-        uri: media.uri,
-        type: media.type ?? (resolvedType === 'video' ? 'video/mp4' : 'image/jpeg'),
-        name: media.fileName ?? `upload-${Date.now()}`,
-      } as any;
-      formData.append('file', file);
-      formData.append('upload_preset', cloudinaryUploadPreset);
-
-      const cloudinaryResponse = await axios.post(cloudinaryUrl, formData, {
-        headers: { 'Content-Type': 'multipart/form-data' },
+      setSubmitting(true);
+      await enqueueUpload({
+        kind: shareTarget,
+        media: media.map((asset) => {
+          const type = resolveType(asset);
+          return {
+            asset: {
+              uri: asset.uri as string,
+              type: asset.type ?? (type === 'video' ? 'video/mp4' : 'image/jpeg'),
+              fileName: asset.fileName,
+              fileSize: asset.fileSize,
+            },
+            type,
+          };
+        }),
+        caption,
       });
 
-      const mediaUrl: string = cloudinaryResponse.data?.secure_url;
-      if (!mediaUrl) {
-        throw new Error('Missing media URL');
-      }
-
-      if (shareTarget === 'story') {
-        await addDoc(collection(db, 'stories'), {
-          userId: currentUser.uid,
-          username: currentUser.displayName || 'Anonymous',
-          userPhotoUrl: currentUser.photoURL || null,
-          imageUrl: mediaUrl,
-          mediaUrl,
-          caption: caption.trim() || null,
-          createdAt: serverTimestamp(),
-          expiresAt: Timestamp.fromMillis(Date.now() + STORY_TTL_MS),
-        });
-        Alert.alert('Story posted', 'Your story will be visible for 24 hours.');
-      } else {
-        await addDoc(collection(db, 'posts'), {
-          userId: currentUser.uid,
-          username: currentUser.displayName || 'Anonymous',
-          mediaUrl,
-          mediaType: resolvedType,
-          caption: caption.trim(),
-          createdAt: serverTimestamp(),
-          likesCount: 0,
-          commentsCount: 0,
-        });
-      }
-
-      setMedia(null);
+      setMedia([]);
       setCaption('');
       setShareTarget('post');
-      navigation?.goBack?.();
     } catch (error: any) {
-      console.error('Error creating post', error);
-      Alert.alert('Upload failed', error?.message ?? 'Could not upload media.');
+      console.error('Error queueing upload', error);
+      Alert.alert('Upload failed', error?.message ?? 'Could not queue your upload.');
     } finally {
-      setUploading(false);
+      setSubmitting(false);
     }
-  }, [caption, currentUser, media, navigation, resolvedType]);
+  }, [caption, currentUser, media, shareTarget]);
+
+  const confirmDiscard = useCallback((item: QueuedUpload) => {
+    Alert.alert('Discard upload?', 'This draft will be removed from the queue.', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Discard', style: 'destructive', onPress: () => discardUpload(item.id) },
+    ]);
+  }, []);
 
   return (
     <Screen scrollable contentContainerStyle={styles.container}>
@@ -127,7 +125,7 @@ const CreatePostScreen: React.FC = ({ navigation }: any) => {
             <TouchableOpacity
               key={option}
               style={[styles.modeButton, active && styles.modeButtonActive]}
-              onPress={() => setShareTarget(option)}
+              onPress={() => handleSelectTarget(option)}
               activeOpacity={0.85}
             >
               <Text style={[styles.modeLabel, active && styles.modeLabelActive]}>
@@ -137,20 +135,40 @@ const CreatePostScreen: React.FC = ({ navigation }: any) => {
           );
         })}
       </View>
-      <Button 
-        label={media ? 'Change media' : 'Pick image / video'} 
-        variant="secondary" 
+      <Button
+        label={media.length ? 'Change media' : shareTarget === 'story' ? 'Pick image / video' : 'Pick images / videos'}
+        variant="secondary"
         onPress={handleSelectMedia}
-        icon={media ? 'swap-horizontal' : 'images'}
+        icon={media.length ? 'swap-horizontal' : 'images'}
       />
 
       <Surface style={styles.previewWrapper} padding="md">
-        {media?.uri ? (
-          resolvedType === 'video' ? (
-            <Video source={{ uri: media.uri }} style={styles.preview} resizeMode="cover" muted repeat />
+        {media.length === 1 ? (
+          resolveType(media[0]) === 'video' ? (
+            <Video source={{ uri: media[0].uri }} style={styles.preview} resizeMode="cover" muted repeat />
           ) : (
-            <Image source={{ uri: media.uri }} style={styles.preview} />
+            <Image source={{ uri: media[0].uri }} style={styles.preview} />
           )
+        ) : media.length > 1 ? (
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.previewStrip}>
+            {media.map((asset, index) => (
+              <View key={`${asset.uri}-${index}`} style={styles.previewTile}>
+                {resolveType(asset) === 'video' ? (
+                  <Video source={{ uri: asset.uri }} style={styles.previewTileMedia} resizeMode="cover" muted paused />
+                ) : (
+                  <Image source={{ uri: asset.uri }} style={styles.previewTileMedia} />
+                )}
+                <Text style={styles.previewIndex}>{index + 1}</Text>
+                <TouchableOpacity
+                  style={styles.previewRemove}
+                  onPress={() => removeMedia(asset.uri)}
+                  hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                >
+                  <Icon name="close" size={16} color="#fff" />
+                </TouchableOpacity>
+              </View>
+            ))}
+          </ScrollView>
         ) : (
           <View style={styles.previewPlaceholder}>
             <Text style={styles.placeholderText}>Your selection will appear here</Text>
@@ -168,16 +186,88 @@ const CreatePostScreen: React.FC = ({ navigation }: any) => {
       />
 
       <Button
-        label={uploading ? (shareTarget === 'story' ? 'Posting story...' : 'Uploading...') : shareTarget === 'story' ? 'Share story' : 'Share post'}
+        label={shareTarget === 'story' ? 'Share story' : 'Share post'}
         onPress={handleCreatePost}
-        disabled={uploading}
-        loading={uploading}
+        disabled={submitting}
+        loading={submitting}
         icon="paper-plane"
       />
+
+      {queue.length ? (
+        <View style={styles.queue}>
+          <Text style={styles.queueTitle}>Uploads</Text>
+          {queue.map((item) => (
+            <UploadQueueRow
+              key={item.id}
+              item={item}
+              onRetry={() => retryUpload(item.id)}
+              onDiscard={() => confirmDiscard(item)}
+            />
+          ))}
+        </View>
+      ) : null}
     </Screen>
   );
 };
 
+const statusLabel = (item: QueuedUpload) => {
+  switch (item.status) {
+    case 'uploading':
+      return isFullyUploaded(item) ? 'Publishing…' : `Uploading ${Math.round(item.progress * 100)}%`;
+    case 'waiting-for-network':
+      return 'Waiting for connection';
+    case 'failed':
+      return item.error ?? 'Upload failed';
+    default:
+      return 'Queued';
+  }
+};
+
+type UploadQueueRowProps = {
+  item: QueuedUpload;
+  onRetry: () => void;
+  onDiscard: () => void;
+};
+
+const UploadQueueRow: React.FC<UploadQueueRowProps> = ({ item, onRetry, onDiscard }) => {
+  const failed = item.status === 'failed' || item.status === 'waiting-for-network';
+  const [cover] = item.media;
+  return (
+    <Surface padding="md" style={styles.queueRow}>
+      {cover?.type === 'video' ? (
+        <View style={[styles.queueThumb, styles.queueThumbVideo]}>
+          <Icon name="videocam" size={20} color={palette.textMuted} />
+        </View>
+      ) : (
+        <Image source={{ uri: cover?.asset.uri }} style={styles.queueThumb} />
+      )}
+      <View style={styles.queueInfo}>
+        <Text style={styles.queueKind}>
+          {item.kind === 'story' ? 'Story' : item.media.length > 1 ? `Post · ${item.media.length} items` : 'Post'}
+        </Text>
+        <Text style={[styles.queueStatus, failed && styles.queueStatusError]} numberOfLines={2}>
+          {statusLabel(item)}
+        </Text>
+        {item.status === 'uploading' && !isFullyUploaded(item) ? (
+          <View style={styles.progressTrack}>
+            <View style={[styles.progressFill, { width: `${Math.round(item.progress * 100)}%` }]} />
+          </View>
+        ) : null}
+      </View>
+      <View style={styles.queueActions}>
+        {failed ? (
+          <TouchableOpacity onPress={onRetry} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+            <Icon name="refresh" size={20} color={palette.primary} />
+          </TouchableOpacity>
+        ) : null}
+        <TouchableOpacity onPress={onDiscard} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+          <Icon name="trash-outline" size={20} color={palette.danger} />
+        </TouchableOpacity>
+      </View>
+    </Surface>
+  );
+};
+
 const styles = StyleSheet.create({
   container: {
     gap: spacing.lg,
@@ -220,6 +310,38 @@ const styles = StyleSheet.create({
     borderRadius: 16,
     backgroundColor: palette.surfaceAlt,
   },
+  previewStrip: {
+    gap: spacing.sm,
+  },
+  previewTile: {
+    width: 150,
+    aspectRatio: 3 / 4,
+    borderRadius: 12,
+    overflow: 'hidden',
+    backgroundColor: palette.surfaceAlt,
+  },
+  previewTileMedia: {
+    width: '100%',
+    height: '100%',
+  },
+  previewIndex: {
+    position: 'absolute',
+    left: spacing.sm,
+    top: spacing.sm,
+    color: '#fff',
+    fontWeight: '700',
+  },
+  previewRemove: {
+    position: 'absolute',
+    right: spacing.sm,
+    top: spacing.sm,
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    backgroundColor: palette.overlay,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
   previewPlaceholder: {
     flex: 1,
     borderRadius: 16,
@@ -229,6 +351,55 @@ const styles = StyleSheet.create({
   placeholderText: {
     color: palette.textMuted,
   },
+  queue: {
+    gap: spacing.sm,
+  },
+  queueTitle: {
+    ...typography.label,
+  },
+  queueRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+  },
+  queueThumb: {
+    width: 48,
+    height: 48,
+    borderRadius: 10,
+    backgroundColor: palette.surfaceAlt,
+  },
+  queueThumbVideo: {
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  queueInfo: {
+    flex: 1,
+    gap: spacing.xs,
+  },
+  queueKind: {
+    color: palette.text,
+    fontWeight: '600',
+  },
+  queueStatus: {
+    ...typography.caption,
+  },
+  queueStatusError: {
+    color: palette.danger,
+  },
+  queueActions: {
+    flexDirection: 'row',
+    gap: spacing.md,
+  },
+  progressTrack: {
+    height: 6,
+    borderRadius: 999,
+    backgroundColor: palette.surfaceAlt,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: palette.primary,
+  },
   caption: {
     minHeight: 80,
     borderRadius: 16,
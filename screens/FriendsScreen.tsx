@@ -1,103 +1,126 @@
 import React, { useCallback, useEffect, useMemo, useState } from 'react';
-import { Alert, FlatList, StyleSheet, Text, View } from 'react-native';
-import { useNavigation } from '@react-navigation/native';
+import { ActivityIndicator, Alert, FlatList, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { RouteProp, useNavigation, useRoute } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
-import { collection, doc, onSnapshot, query, serverTimestamp, setDoc } from 'firebase/firestore';
+import Icon from 'react-native-vector-icons/Ionicons';
 import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
+import FollowButton from '../components/FollowButton';
 import Avatar from '../components/ui/Avatar';
 import Button from '../components/ui/Button';
 import Surface from '../components/ui/Surface';
 import StateView from '../components/ui/StateView';
-import { auth, db } from '../services/firebase';
-import { palette, spacing } from '../theme/tokens';
-import { RootStackParamList } from '../types/navigation';
+import { auth } from '../services/firebase';
+import {
+  acceptFollowRequest,
+  cancelFollowRequest,
+  declineFollowRequest,
+  removeFollower,
+} from '../services/follows';
+import { useFollowGraph } from '../hooks/useFollowGraph';
+import { useProfiles } from '../hooks/useProfiles';
+import { useUserSearch } from '../hooks/useUserSearch';
+import { SuggestedProfile, suggestProfiles, UserProfile } from '../services/profiles';
+import { palette, radii, spacing, typography } from '../theme/tokens';
+import { AppTabsParamList, FriendsTab, RootStackParamList } from '../types/navigation';
 
-type AppUser = {
+type RequestRow = {
   uid: string;
-  username?: string;
-  email?: string;
-  photoUrl?: string;
+  direction: 'incoming' | 'outgoing';
 };
 
 const FriendsScreen: React.FC = () => {
   const currentUser = auth.currentUser;
   const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
-  const [people, setPeople] = useState<AppUser[]>([]);
-  const [followingMap, setFollowingMap] = useState<Record<string, boolean>>({});
-  const [loading, setLoading] = useState(true);
+  const route = useRoute<RouteProp<AppTabsParamList, 'Friends'>>();
+  const [searchTerm, setSearchTerm] = useState('');
+  const [suggestions, setSuggestions] = useState<SuggestedProfile[]>([]);
+  const [loadingSuggestions, setLoadingSuggestions] = useState(true);
+  const [tab, setTab] = useState<FriendsTab>('people');
+  const [pendingIds, setPendingIds] = useState<Record<string, boolean>>({});
   const insets = useSafeAreaInsets();
+  const graph = useFollowGraph(currentUser?.uid);
+  const profiles = useProfiles([...graph.incoming, ...graph.outgoing, ...graph.followers]);
+  const search = useUserSearch(searchTerm);
+  const following = graph.following;
+  const graphLoading = graph.loading;
+  const requestedTab = route.params?.tab;
 
+  // Lets other screens, such as Activity, open a specific tab.
   useEffect(() => {
-    if (!currentUser) {
-      setLoading(false);
-      return;
+    if (requestedTab) {
+      setTab(requestedTab);
     }
-
-    const usersRef = query(collection(db, 'users'));
-    const unsubscribe = onSnapshot(
-      usersRef,
-      (snapshot) => {
-        const list: AppUser[] = snapshot.docs
-          .filter((docSnap) => docSnap.id !== currentUser.uid)
-          .map((docSnap) => {
-            const data = docSnap.data() as Omit<AppUser, 'uid'>;
-            return { ...data, uid: docSnap.id };
-          });
-        setPeople(list);
-        setLoading(false);
-      },
-      (error) => {
-        console.error('Error fetching users', error);
-        Alert.alert('Error', 'Unable to load people right now.');
-        setLoading(false);
-      }
-    );
-
-    return unsubscribe;
-  }, [currentUser]);
+  }, [requestedTab]);
 
   useEffect(() => {
-    if (!currentUser) {
+    if (!currentUser || graphLoading) {
       return;
     }
+    let active = true;
+    setLoadingSuggestions(true);
+    suggestProfiles(currentUser.uid, following)
+      .then((list) => {
+        if (active) {
+          setSuggestions(list);
+        }
+      })
+      .catch((error) => console.error('Failed to load suggestions', error))
+      .finally(() => {
+        if (active) {
+          setLoadingSuggestions(false);
+        }
+      });
+    return () => {
+      active = false;
+    };
+  }, [currentUser, following, graphLoading]);
 
-    const friendsRef = collection(db, 'users', currentUser.uid, 'friends');
-    const unsubscribe = onSnapshot(
-      friendsRef,
-      (snapshot) => {
-        const next: Record<string, boolean> = {};
-        snapshot.forEach((docSnap) => {
-          next[docSnap.id] = true;
-        });
-        setFollowingMap(next);
-      },
-      (error) => console.error('Error subscribing to friends', error)
-    );
-
-    return unsubscribe;
-  }, [currentUser]);
+  const runAction = useCallback(async (targetId: string, action: () => Promise<void>, failure: string) => {
+    setPendingIds((prev) => ({ ...prev, [targetId]: true }));
+    try {
+      await action();
+    } catch (error: any) {
+      console.error(failure, error);
+      Alert.alert('Error', error?.message ?? failure);
+    } finally {
+      setPendingIds((prev) => {
+        const next = { ...prev };
+        delete next[targetId];
+        return next;
+      });
+    }
+  }, []);
 
-  const addFriend = useCallback(
-    async (friendId: string) => {
-      if (!currentUser || followingMap[friendId]) {
+  const handleRemoveFollower = useCallback(
+    (followerId: string, username: string) => {
+      if (!currentUser) {
         return;
       }
-
-      try {
-        const friendRef = doc(db, 'users', currentUser.uid, 'friends', friendId);
-        await setDoc(friendRef, {
-          friendId,
-          createdAt: serverTimestamp(),
-        });
-      } catch (error) {
-        console.error('Error adding friend', error);
-        Alert.alert('Error', 'Could not add friend. Please try again.');
-      }
+      Alert.alert(`Remove ${username}?`, 'They will stop following you and will not be notified.', [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: () =>
+            runAction(followerId, () => removeFollower(currentUser.uid, followerId), 'Could not remove follower.'),
+        },
+      ]);
     },
-    [currentUser, followingMap]
+    [currentUser, runAction]
   );
 
-  const emptyState = useMemo(() => !loading && people.length === 0, [loading, people.length]);
+  const requestRows = useMemo<RequestRow[]>(
+    () => [
+      ...graph.incoming.map((uid) => ({ uid, direction: 'incoming' as const })),
+      ...graph.outgoing.map((uid) => ({ uid, direction: 'outgoing' as const })),
+    ],
+    [graph.incoming, graph.outgoing]
+  );
+
+  const openChat = useCallback(
+    (friendId: string, friendName: string) => navigation.navigate('Chat', { friendId, friendName }),
+    [navigation]
+  );
 
   const insetStyle = {
     paddingBottom: insets.bottom,
@@ -113,7 +136,7 @@ const FriendsScreen: React.FC = () => {
     );
   }
 
-  if (loading) {
+  if (graph.loading) {
     return (
       <SafeAreaView style={[styles.safeArea, insetStyle]} edges={['top', 'right', 'bottom', 'left']}>
         <StateView title="Loading friends" loading />
@@ -121,50 +144,219 @@ const FriendsScreen: React.FC = () => {
     );
   }
 
+  const searching = searchTerm.trim().length > 0;
+  const peopleRows: (UserProfile & { mutualCount?: number })[] = searching
+    ? search.results.filter((entry) => entry.uid !== currentUser.uid)
+    : suggestions;
+  const peopleBusy = searching ? search.searching : loadingSuggestions;
+
+  const renderPerson = (
+    uid: string,
+    name: string,
+    subtitle: string | undefined,
+    photoUrl: string | undefined,
+    actions: React.ReactNode
+  ) => (
+    <Surface style={styles.card} padding="lg">
+      <TouchableOpacity
+        style={styles.cardLeft}
+        onPress={() => navigation.navigate('UserProfile', { userId: uid })}
+        activeOpacity={0.8}
+      >
+        <Avatar label={name} uri={photoUrl} size={48} />
+        <View style={styles.cardText}>
+          <Text style={styles.username} numberOfLines={1}>
+            {name}
+          </Text>
+          {subtitle ? (
+            <Text style={styles.email} numberOfLines={1}>
+              {subtitle}
+            </Text>
+          ) : null}
+        </View>
+      </TouchableOpacity>
+      <View style={styles.actions}>{actions}</View>
+    </Surface>
+  );
+
+  const tabs: { key: FriendsTab; label: string; count?: number }[] = [
+    { key: 'people', label: 'People' },
+    { key: 'requests', label: 'Requests', count: graph.incoming.length },
+    { key: 'followers', label: 'Followers', count: graph.followers.length },
+  ];
+
   return (
     <SafeAreaView style={[styles.safeArea, insetStyle]} edges={['top', 'right', 'bottom', 'left']}>
       <View style={[styles.container, { paddingBottom: spacing.lg + insets.bottom }]}>
-        <FlatList
-          data={people}
-          keyExtractor={(item) => item.uid}
-          renderItem={({ item }) => {
-            const isFollowing = !!followingMap[item.uid];
+        <View style={styles.tabs}>
+          {tabs.map((entry) => {
+            const active = entry.key === tab;
             return (
-              <Surface style={styles.card} padding="lg">
-                <View style={styles.cardLeft}>
-                  <Avatar label={item.username || item.email || 'U'} uri={item.photoUrl} size={48} />
-                  <View>
-                    <Text style={styles.username}>{item.username || 'Unknown user'}</Text>
-                    <Text style={styles.email}>{item.email}</Text>
-                  </View>
-                </View>
-                <View style={styles.actions}>
-                  <Button
-                    label={isFollowing ? 'Following' : 'Follow'}
-                    variant={isFollowing ? 'secondary' : 'primary'}
-                    onPress={() => addFriend(item.uid)}
-                    disabled={isFollowing}
-                    style={styles.followButton}
-                    icon={isFollowing ? 'checkmark-circle' : 'person-add'}
-                  />
+              <TouchableOpacity
+                key={entry.key}
+                style={[styles.tabButton, active && styles.tabButtonActive]}
+                onPress={() => setTab(entry.key)}
+                activeOpacity={0.85}
+              >
+                <Text style={[styles.tabLabel, active && styles.tabLabelActive]}>
+                  {entry.label}
+                  {entry.count ? ` · ${entry.count}` : ''}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        {tab === 'people' ? (
+          <>
+            <View style={styles.searchBox}>
+              <Icon name="search" size={18} color={palette.textMuted} />
+              <TextInput
+                style={styles.searchInput}
+                value={searchTerm}
+                onChangeText={setSearchTerm}
+                placeholder="Search by username"
+                placeholderTextColor={palette.textMuted}
+                autoCapitalize="none"
+                autoCorrect={false}
+                returnKeyType="search"
+              />
+              {searching ? (
+                <TouchableOpacity onPress={() => setSearchTerm('')} hitSlop={8}>
+                  <Icon name="close-circle" size={18} color={palette.textMuted} />
+                </TouchableOpacity>
+              ) : null}
+            </View>
+            {!searching ? <Text style={styles.sectionTitle}>Suggested people</Text> : null}
+            <FlatList
+              data={peopleRows}
+              keyExtractor={(item) => item.uid}
+              keyboardShouldPersistTaps="handled"
+              renderItem={({ item }) => {
+                const name = item.username || 'Unknown user';
+                const subtitle = item.mutualCount
+                  ? `${item.mutualCount} mutual ${item.mutualCount === 1 ? 'friend' : 'friends'}`
+                  : undefined;
+                return renderPerson(
+                  item.uid,
+                  name,
+                  subtitle,
+                  item.photoUrl,
+                  <>
+                    <FollowButton
+                      uid={currentUser.uid}
+                      targetId={item.uid}
+                      username={name}
+                      state={graph.followStateFor(item.uid)}
+                      style={styles.followButton}
+                    />
+                    <Button
+                      label="Chat"
+                      variant="ghost"
+                      onPress={() => openChat(item.uid, item.username || 'Friend')}
+                      icon="chatbubble-outline"
+                    />
+                  </>
+                );
+              }}
+              onEndReached={searching ? search.loadMore : undefined}
+              onEndReachedThreshold={0.5}
+              ListFooterComponent={
+                search.loadingMore ? <ActivityIndicator color={palette.primary} style={styles.footer} /> : null
+              }
+              ListEmptyComponent={
+                peopleBusy ? (
+                  <ActivityIndicator color={palette.primary} />
+                ) : (
+                  <Text style={styles.emptyText}>
+                    {searching
+                      ? `No usernames start with "${searchTerm.trim()}".`
+                      : 'Follow a few people to get suggestions, or search above.'}
+                  </Text>
+                )
+              }
+              contentContainerStyle={peopleRows.length === 0 ? styles.flexGrow : undefined}
+            />
+          </>
+        ) : null}
+
+        {tab === 'requests' ? (
+          <FlatList
+            data={requestRows}
+            keyExtractor={(item) => `${item.direction}-${item.uid}`}
+            renderItem={({ item }) => {
+              const name = profiles[item.uid]?.username || 'Unknown user';
+              const busy = !!pendingIds[item.uid];
+              return renderPerson(
+                item.uid,
+                name,
+                item.direction === 'incoming' ? 'Wants to follow you' : 'Request sent',
+                profiles[item.uid]?.photoUrl,
+                item.direction === 'incoming' ? (
+                  <>
+                    <Button
+                      label="Accept"
+                      onPress={() =>
+                        runAction(item.uid, () => acceptFollowRequest(currentUser.uid, item.uid), 'Could not accept the request.')
+                      }
+                      disabled={busy}
+                      style={styles.followButton}
+                      icon="checkmark"
+                    />
+                    <Button
+                      label="Decline"
+                      variant="ghost"
+                      onPress={() =>
+                        runAction(item.uid, () => declineFollowRequest(currentUser.uid, item.uid), 'Could not decline the request.')
+                      }
+                      disabled={busy}
+                      icon="close"
+                    />
+                  </>
+                ) : (
                   <Button
-                    label="Chat"
-                    variant="ghost"
+                    label="Cancel"
+                    variant="secondary"
                     onPress={() =>
-                      navigation.navigate('Chat', {
-                        friendId: item.uid,
-                        friendName: item.username || 'Friend',
-                      })
+                      runAction(item.uid, () => cancelFollowRequest(currentUser.uid, item.uid), 'Could not cancel the request.')
                     }
-                    icon="chatbubble-outline"
+                    disabled={busy}
+                    style={styles.followButton}
+                    icon="close-circle-outline"
                   />
-                </View>
-              </Surface>
-            );
-          }}
-          ListEmptyComponent={emptyState ? <Text style={styles.emptyText}>No other users yet.</Text> : null}
-          contentContainerStyle={people.length === 0 ? styles.flexGrow : undefined}
-        />
+                )
+              );
+            }}
+            ListEmptyComponent={<Text style={styles.emptyText}>No pending follow requests.</Text>}
+            contentContainerStyle={requestRows.length === 0 ? styles.flexGrow : undefined}
+          />
+        ) : null}
+
+        {tab === 'followers' ? (
+          <FlatList
+            data={graph.followers}
+            keyExtractor={(item) => item}
+            renderItem={({ item }) => {
+              const name = profiles[item]?.username || 'Unknown user';
+              return renderPerson(
+                item,
+                name,
+                graph.followStateFor(item) === 'following' ? 'You follow each other' : 'Follows you',
+                profiles[item]?.photoUrl,
+                <Button
+                  label="Remove"
+                  variant="ghost"
+                  onPress={() => handleRemoveFollower(item, name)}
+                  disabled={!!pendingIds[item]}
+                  style={styles.followButton}
+                  icon="person-remove-outline"
+                />
+              );
+            }}
+            ListEmptyComponent={<Text style={styles.emptyText}>Nobody follows you yet.</Text>}
+            contentContainerStyle={graph.followers.length === 0 ? styles.flexGrow : undefined}
+          />
+        ) : null}
       </View>
     </SafeAreaView>
   );
@@ -181,6 +373,55 @@ const styles = StyleSheet.create({
     paddingHorizontal: spacing.lg,
     paddingTop: spacing.lg,
   },
+  tabs: {
+    flexDirection: 'row',
+    backgroundColor: palette.surfaceAlt,
+    borderRadius: radii.pill,
+    padding: 4,
+    marginBottom: spacing.lg,
+  },
+  tabButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+    borderRadius: radii.pill,
+  },
+  tabButtonActive: {
+    backgroundColor: palette.primary,
+  },
+  tabLabel: {
+    color: palette.text,
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  tabLabelActive: {
+    color: '#031418',
+  },
+  searchBox: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    backgroundColor: palette.surfaceAlt,
+    borderRadius: radii.md,
+    paddingHorizontal: spacing.md,
+    marginBottom: spacing.md,
+  },
+  searchInput: {
+    ...typography.body,
+    flex: 1,
+    color: palette.text,
+    paddingVertical: spacing.md,
+  },
+  sectionTitle: {
+    color: palette.textMuted,
+    fontSize: 13,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    marginBottom: spacing.sm,
+  },
+  footer: {
+    paddingVertical: spacing.lg,
+  },
   card: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -188,10 +429,14 @@ const styles = StyleSheet.create({
     marginBottom: spacing.md,
   },
   cardLeft: {
+    flex: 1,
     flexDirection: 'row',
     alignItems: 'center',
     gap: spacing.md,
   },
+  cardText: {
+    flex: 1,
+  },
   username: {
     color: palette.text,
     fontWeight: '600',
@@ -0,0 +1,314 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { onSnapshot } from 'firebase/firestore';
+import { launchImageLibrary } from 'react-native-image-picker';
+import Icon from 'react-native-vector-icons/Ionicons';
+import Avatar from '../components/ui/Avatar';
+import Button from '../components/ui/Button';
+import StateView from '../components/ui/StateView';
+import { auth } from '../services/firebase';
+import { chatDoc, ChatSummary } from '../services/chat';
+import {
+  addGroupMembers,
+  leaveGroup,
+  MAX_GROUP_NAME_LENGTH,
+  removeGroupMember,
+  renameGroup,
+  setGroupPhoto,
+  uploadGroupPhoto,
+} from '../services/groups';
+import { useFollowGraph } from '../hooks/useFollowGraph';
+import { useProfiles } from '../hooks/useProfiles';
+import { palette, radii, spacing, typography } from '../theme/tokens';
+import { RootStackParamList } from '../types/navigation';
+
+type Props = NativeStackScreenProps<RootStackParamList, 'GroupInfo'>;
+
+const GroupInfoScreen: React.FC<Props> = ({ route, navigation }) => {
+  const { chatId } = route.params;
+  const currentUser = auth.currentUser;
+  const [chat, setChat] = useState<Omit<ChatSummary, 'id'> | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [name, setName] = useState('');
+  const [busy, setBusy] = useState(false);
+  const graph = useFollowGraph(currentUser?.uid);
+
+  useEffect(
+    () =>
+      onSnapshot(
+        chatDoc(chatId),
+        (snapshot) => {
+          const data = snapshot.data() as Omit<ChatSummary, 'id'> | undefined;
+          setChat(data ?? null);
+          setName((prev) => prev || data?.name || '');
+          setLoading(false);
+        },
+        (error) => {
+          console.error('Error loading group', error);
+          setLoading(false);
+        }
+      ),
+    [chatId]
+  );
+
+  const members = useMemo(() => chat?.participants ?? [], [chat?.participants]);
+  const candidates = useMemo(
+    () => graph.following.filter((uid) => !members.includes(uid)),
+    [graph.following, members]
+  );
+  const profiles = useProfiles([...members, ...candidates]);
+  const isAdmin = !!currentUser && !!chat?.admins?.includes(currentUser.uid);
+
+  const run = useCallback(async (action: () => Promise<unknown>, failure: string) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (error: any) {
+      console.error(failure, error);
+      Alert.alert('Error', error?.message ?? failure);
+    } finally {
+      setBusy(false);
+    }
+  }, []);
+
+  const changePhoto = useCallback(async () => {
+    if (!currentUser) {
+      return;
+    }
+    const result = await launchImageLibrary({ mediaType: 'photo', selectionLimit: 1 });
+    const asset = result.assets?.[0];
+    if (result.didCancel || !asset?.uri) {
+      return;
+    }
+    run(async () => {
+      const url = await uploadGroupPhoto({
+        uri: asset.uri!,
+        type: asset.type ?? 'image/jpeg',
+        fileName: asset.fileName ?? `group-${Date.now()}.jpg`,
+        fileSize: asset.fileSize,
+      });
+      await setGroupPhoto(chatId, currentUser.uid, url);
+    }, 'Could not update the group photo.');
+  }, [chatId, currentUser, run]);
+
+  const confirmRemove = useCallback(
+    (uid: string, username: string) => {
+      if (!currentUser) {
+        return;
+      }
+      Alert.alert(`Remove ${username}?`, 'They will no longer see new messages in this group.', [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: () =>
+            run(() => removeGroupMember(chatId, currentUser.uid, uid), 'Could not remove this member.'),
+        },
+      ]);
+    },
+    [chatId, currentUser, run]
+  );
+
+  const confirmLeave = useCallback(() => {
+    if (!currentUser) {
+      return;
+    }
+    Alert.alert('Leave group?', 'You will stop receiving messages from this group.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Leave',
+        style: 'destructive',
+        onPress: () =>
+          run(async () => {
+            await leaveGroup(chatId, currentUser.uid);
+            navigation.popToTop();
+          }, 'Could not leave the group.'),
+      },
+    ]);
+  }, [chatId, currentUser, navigation, run]);
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.safeArea}>
+        <StateView title="Loading group" loading />
+      </SafeAreaView>
+    );
+  }
+
+  if (!chat || !currentUser || !members.includes(currentUser.uid)) {
+    return (
+      <SafeAreaView style={styles.safeArea}>
+        <StateView title="Group unavailable" description="You are not a member of this group." />
+      </SafeAreaView>
+    );
+  }
+
+  const renamed = name.trim() && name.trim() !== chat.name;
+
+  return (
+    <SafeAreaView style={styles.safeArea} edges={['right', 'bottom', 'left']}>
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <View style={styles.hero}>
+          <TouchableOpacity onPress={changePhoto} disabled={!isAdmin || busy}>
+            <Avatar label={chat.name || 'G'} uri={chat.photoUrl} size={88} />
+            {isAdmin ? (
+              <View style={styles.photoBadge}>
+                <Icon name="camera" size={14} color={palette.text} />
+              </View>
+            ) : null}
+          </TouchableOpacity>
+          {isAdmin ? (
+            <View style={styles.renameRow}>
+              <TextInput
+                style={styles.nameInput}
+                value={name}
+                onChangeText={setName}
+                maxLength={MAX_GROUP_NAME_LENGTH}
+                placeholder="Group name"
+                placeholderTextColor={palette.textMuted}
+              />
+              {renamed ? (
+                <TouchableOpacity
+                  onPress={() => run(() => renameGroup(chatId, currentUser.uid, name), 'Could not rename the group.')}
+                  disabled={busy}
+                >
+                  <Icon name="checkmark-circle" size={28} color={palette.primary} />
+                </TouchableOpacity>
+              ) : null}
+            </View>
+          ) : (
+            <Text style={styles.groupName}>{chat.name}</Text>
+          )}
+          {busy ? <ActivityIndicator color={palette.primary} /> : null}
+        </View>
+
+        <Text style={styles.sectionTitle}>{members.length} members</Text>
+        {members.map((uid) => {
+          const username = uid === currentUser.uid ? 'You' : profiles[uid]?.username || 'Unknown user';
+          return (
+            <View key={uid} style={styles.row}>
+              <Avatar label={username} uri={profiles[uid]?.photoUrl} size={40} />
+              <Text style={styles.rowName} numberOfLines={1}>
+                {username}
+              </Text>
+              {chat.admins?.includes(uid) ? <Text style={styles.adminTag}>Admin</Text> : null}
+              {isAdmin && uid !== currentUser.uid ? (
+                <TouchableOpacity onPress={() => confirmRemove(uid, username)} disabled={busy} hitSlop={8}>
+                  <Icon name="remove-circle-outline" size={22} color={palette.danger} />
+                </TouchableOpacity>
+              ) : null}
+            </View>
+          );
+        })}
+
+        {isAdmin && candidates.length ? <Text style={styles.sectionTitle}>Add people you follow</Text> : null}
+        {(isAdmin ? candidates : []).map((uid) => (
+          <View key={uid} style={styles.row}>
+            <Avatar label={profiles[uid]?.username || '?'} uri={profiles[uid]?.photoUrl} size={40} />
+            <Text style={styles.rowName} numberOfLines={1}>
+              {profiles[uid]?.username || 'Unknown user'}
+            </Text>
+            <TouchableOpacity
+              onPress={() => run(() => addGroupMembers(chatId, currentUser.uid, [uid]), 'Could not add this member.')}
+              disabled={busy}
+              hitSlop={8}
+            >
+              <Icon name="add-circle-outline" size={22} color={palette.primary} />
+            </TouchableOpacity>
+          </View>
+        ))}
+
+        <Button label="Leave group" variant="ghost" icon="exit-outline" onPress={confirmLeave} style={styles.leave} />
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: palette.background,
+  },
+  content: {
+    padding: spacing.lg,
+    paddingBottom: spacing.xxl,
+  },
+  hero: {
+    alignItems: 'center',
+    gap: spacing.md,
+    marginBottom: spacing.xl,
+  },
+  photoBadge: {
+    position: 'absolute',
+    right: 0,
+    bottom: 0,
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: palette.surfaceElevated,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  renameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    alignSelf: 'stretch',
+  },
+  nameInput: {
+    ...typography.body,
+    flex: 1,
+    color: palette.text,
+    backgroundColor: palette.surfaceAlt,
+    borderRadius: radii.md,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.md,
+    textAlign: 'center',
+  },
+  groupName: {
+    color: palette.text,
+    fontSize: 22,
+    fontWeight: '700',
+  },
+  sectionTitle: {
+    color: palette.textMuted,
+    fontSize: 13,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    marginTop: spacing.lg,
+    marginBottom: spacing.sm,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+    paddingVertical: spacing.sm,
+  },
+  rowName: {
+    flex: 1,
+    color: palette.text,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  adminTag: {
+    color: palette.primaryLight,
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  leave: {
+    marginTop: spacing.xl,
+  },
+});
+
+export default GroupInfoScreen;
@@ -0,0 +1,206 @@
+import React, { useCallback, useMemo } from 'react';
+import { FlatList, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import Icon from 'react-native-vector-icons/Ionicons';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import Avatar from '../components/ui/Avatar';
+import StateView from '../components/ui/StateView';
+import { auth } from '../services/firebase';
+import { ChatSummary, isGroupChat, previewText } from '../services/chat';
+import { useInbox } from '../hooks/useInbox';
+import { useProfiles } from '../hooks/useProfiles';
+import { formatRelativeTime } from '../utils/format';
+import { palette, radii, spacing } from '../theme/tokens';
+import { RootStackParamList } from '../types/navigation';
+
+const otherParticipant = (chat: ChatSummary, uid: string) =>
+  chat.participants.find((participant) => participant !== uid) ?? uid;
+
+const Separator = () => <View style={styles.separator} />;
+
+const InboxScreen: React.FC = () => {
+  const currentUser = auth.currentUser;
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+  const { chats, loading } = useInbox(currentUser?.uid);
+  // Direct rows need the friend's profile; group rows need the last sender's.
+  const profileIds = useMemo(
+    () =>
+      currentUser
+        ? chats.map((chat) =>
+            isGroupChat(chat) ? chat.lastMessage?.senderId ?? '' : otherParticipant(chat, currentUser.uid)
+          )
+        : [],
+    [chats, currentUser]
+  );
+  const profiles = useProfiles(profileIds.filter(Boolean));
+
+  const openChat = useCallback(
+    (chat: ChatSummary, friendId: string, friendName: string) =>
+      isGroupChat(chat)
+        ? navigation.navigate('Chat', { chatId: chat.id })
+        : navigation.navigate('Chat', { friendId, friendName }),
+    [navigation]
+  );
+
+  if (!currentUser) {
+    return (
+      <SafeAreaView style={styles.safeArea}>
+        <StateView title="Please sign in" description="Sign in to see your conversations." />
+      </SafeAreaView>
+    );
+  }
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.safeArea}>
+        <StateView title="Loading conversations" loading />
+      </SafeAreaView>
+    );
+  }
+
+  const renderItem = ({ item }: { item: ChatSummary }) => {
+    const group = isGroupChat(item);
+    const friendId = otherParticipant(item, currentUser.uid);
+    const profile = group ? undefined : profiles[friendId];
+    const name = group ? item.name || 'Group' : profile?.username || 'Unknown user';
+    const unread = item.unreadCounts?.[currentUser.uid] ?? 0;
+    const preview = item.lastMessage ? previewText(item.lastMessage) : 'No messages yet';
+    const senderId = item.lastMessage?.senderId;
+    const sender =
+      senderId === currentUser.uid ? 'You' : group && senderId ? profiles[senderId]?.username : undefined;
+
+    return (
+      <TouchableOpacity style={styles.row} onPress={() => openChat(item, friendId, name)} activeOpacity={0.85}>
+        <Avatar label={name} uri={group ? item.photoUrl : profile?.photoUrl} size={52} />
+        <View style={styles.rowText}>
+          <View style={styles.rowTop}>
+            <Text style={[styles.name, unread > 0 && styles.unreadText]} numberOfLines={1}>
+              {name}
+            </Text>
+            <Text style={styles.time}>{formatRelativeTime(item.lastMessageAt)}</Text>
+          </View>
+          <View style={styles.rowBottom}>
+            <Text style={[styles.preview, unread > 0 && styles.unreadText]} numberOfLines={1}>
+              {sender ? `${sender}: ${preview}` : preview}
+            </Text>
+            {unread > 0 ? (
+              <View style={styles.badge}>
+                <Text style={styles.badgeText}>{unread > 99 ? '99+' : unread}</Text>
+              </View>
+            ) : null}
+          </View>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.safeArea} edges={['top', 'right', 'left']}>
+      <View style={styles.titleRow}>
+        <Text style={styles.title}>Messages</Text>
+        <TouchableOpacity onPress={() => navigation.navigate('NewGroup')} hitSlop={8}>
+          <Icon name="people-circle-outline" size={28} color={palette.primary} />
+        </TouchableOpacity>
+      </View>
+      <FlatList
+        data={chats}
+        keyExtractor={(item) => item.id}
+        renderItem={renderItem}
+        ItemSeparatorComponent={Separator}
+        ListEmptyComponent={
+          <StateView title="No conversations yet" description="Start a chat from a friend's card." />
+        }
+        contentContainerStyle={chats.length === 0 ? styles.flexGrow : styles.listContent}
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: palette.background,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.lg,
+    paddingTop: spacing.lg,
+    paddingBottom: spacing.md,
+  },
+  title: {
+    color: palette.text,
+    fontSize: 24,
+    fontWeight: '700',
+  },
+  listContent: {
+    paddingBottom: spacing.xl,
+  },
+  flexGrow: {
+    flexGrow: 1,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+  },
+  rowText: {
+    flex: 1,
+    gap: 4,
+  },
+  rowTop: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: spacing.sm,
+  },
+  rowBottom: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  name: {
+    flex: 1,
+    color: palette.text,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  time: {
+    color: palette.textMuted,
+    fontSize: 12,
+  },
+  preview: {
+    flex: 1,
+    color: palette.textMuted,
+    fontSize: 14,
+  },
+  unreadText: {
+    color: palette.text,
+    fontWeight: '700',
+  },
+  badge: {
+    minWidth: 22,
+    height: 22,
+    borderRadius: radii.pill,
+    backgroundColor: palette.primary,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 6,
+  },
+  badgeText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  separator: {
+    height: StyleSheet.hairlineWidth,
+    backgroundColor: palette.border,
+    marginLeft: spacing.lg + 52 + spacing.md,
+  },
+});
+
+export default InboxScreen;
@@ -0,0 +1,155 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { ActivityIndicator, Alert, FlatList, StyleSheet, Text, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { QueryDocumentSnapshot } from 'firebase/firestore';
+import Avatar from '../components/ui/Avatar';
+import StateView from '../components/ui/StateView';
+import FollowButton from '../components/FollowButton';
+import { auth } from '../services/firebase';
+import { fetchPostLikes, PostLike } from '../services/likes';
+import { useFollowGraph } from '../hooks/useFollowGraph';
+import { useProfiles } from '../hooks/useProfiles';
+import { palette, spacing } from '../theme/tokens';
+import { RootStackParamList } from '../types/navigation';
+
+type Props = NativeStackScreenProps<RootStackParamList, 'Likes'>;
+
+const LikesScreen: React.FC<Props> = ({ route }) => {
+  const { postId } = route.params;
+  const currentUser = auth.currentUser;
+  const [likes, setLikes] = useState<PostLike[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const cursorRef = useRef<QueryDocumentSnapshot | null>(null);
+  const graph = useFollowGraph(currentUser?.uid);
+  const profiles = useProfiles(likes.map((like) => like.userId));
+
+  useEffect(() => {
+    let cancelled = false;
+    cursorRef.current = null;
+    setLoading(true);
+    fetchPostLikes(postId, null)
+      .then((page) => {
+        if (cancelled) {
+          return;
+        }
+        cursorRef.current = page.cursor;
+        setLikes(page.likes);
+        setHasMore(page.hasMore);
+      })
+      .catch((error) => {
+        console.error('Error loading likes', error);
+        Alert.alert('Error', 'Unable to load likes right now.');
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [postId]);
+
+  const handleEndReached = useCallback(() => {
+    if (loading || loadingMore || !hasMore) {
+      return;
+    }
+    setLoadingMore(true);
+    fetchPostLikes(postId, cursorRef.current)
+      .then((page) => {
+        cursorRef.current = page.cursor;
+        setLikes((prev) => {
+          const seen = new Set(prev.map((like) => like.userId));
+          return [...prev, ...page.likes.filter((like) => !seen.has(like.userId))];
+        });
+        setHasMore(page.hasMore);
+      })
+      .catch((error) => {
+        console.error('Error loading likes', error);
+        setHasMore(false);
+      })
+      .finally(() => setLoadingMore(false));
+  }, [hasMore, loading, loadingMore, postId]);
+
+  const renderItem = ({ item }: { item: PostLike }) => {
+    const profile = profiles[item.userId];
+    const isSelf = item.userId === currentUser?.uid;
+    const username = isSelf ? 'You' : profile?.username || 'Unknown user';
+    return (
+      <View style={styles.row}>
+        <Avatar label={username} uri={profile?.photoUrl} size={44} />
+        <Text style={styles.username} numberOfLines={1}>
+          {username}
+        </Text>
+        {currentUser && !isSelf ? (
+          <FollowButton
+            uid={currentUser.uid}
+            targetId={item.userId}
+            username={username}
+            state={graph.followStateFor(item.userId)}
+            style={styles.followButton}
+          />
+        ) : null}
+      </View>
+    );
+  };
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.safeArea}>
+        <StateView title="Loading likes" loading />
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.safeArea} edges={['right', 'bottom', 'left']}>
+      <FlatList
+        data={likes}
+        keyExtractor={(item) => item.userId}
+        renderItem={renderItem}
+        extraData={graph}
+        onEndReached={handleEndReached}
+        onEndReachedThreshold={0.4}
+        contentContainerStyle={likes.length === 0 ? styles.flexGrow : styles.listContent}
+        ListEmptyComponent={<StateView title="No likes yet" description="Be the first to like this post." />}
+        ListFooterComponent={loadingMore ? <ActivityIndicator color={palette.primary} /> : null}
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: palette.background,
+  },
+  listContent: {
+    paddingVertical: spacing.md,
+  },
+  flexGrow: {
+    flexGrow: 1,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.sm,
+  },
+  username: {
+    flex: 1,
+    color: palette.text,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  followButton: {
+    minWidth: 120,
+    height: 40,
+  },
+});
+
+export default LikesScreen;
@@ -0,0 +1,202 @@
+import React, { useCallback, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { launchImageLibrary } from 'react-native-image-picker';
+import Icon from 'react-native-vector-icons/Ionicons';
+import Avatar from '../components/ui/Avatar';
+import Button from '../components/ui/Button';
+import { auth } from '../services/firebase';
+import { createGroupChat, MAX_GROUP_NAME_LENGTH, uploadGroupPhoto } from '../services/groups';
+import { isUploadCancelled, UploadableMedia } from '../services/upload';
+import { useFollowGraph } from '../hooks/useFollowGraph';
+import { useProfiles } from '../hooks/useProfiles';
+import { palette, radii, spacing, typography } from '../theme/tokens';
+import { RootStackParamList } from '../types/navigation';
+
+type Props = NativeStackScreenProps<RootStackParamList, 'NewGroup'>;
+
+const NewGroupScreen: React.FC<Props> = ({ navigation }) => {
+  const currentUser = auth.currentUser;
+  const graph = useFollowGraph(currentUser?.uid);
+  const profiles = useProfiles(graph.following);
+  const [name, setName] = useState('');
+  const [photo, setPhoto] = useState<UploadableMedia | null>(null);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [creating, setCreating] = useState(false);
+
+  const toggleMember = useCallback((uid: string) => {
+    setSelected((prev) => (prev.includes(uid) ? prev.filter((id) => id !== uid) : [...prev, uid]));
+  }, []);
+
+  const pickPhoto = useCallback(async () => {
+    const result = await launchImageLibrary({ mediaType: 'photo', selectionLimit: 1 });
+    const asset = result.assets?.[0];
+    if (result.didCancel || !asset?.uri) {
+      return;
+    }
+    setPhoto({
+      uri: asset.uri,
+      type: asset.type ?? 'image/jpeg',
+      fileName: asset.fileName ?? `group-${Date.now()}.jpg`,
+      fileSize: asset.fileSize,
+    });
+  }, []);
+
+  const create = useCallback(async () => {
+    if (!currentUser || creating) {
+      return;
+    }
+    setCreating(true);
+    try {
+      const photoUrl = photo ? await uploadGroupPhoto(photo) : undefined;
+      const chatId = await createGroupChat(currentUser.uid, name, selected, photoUrl);
+      navigation.replace('Chat', { chatId });
+    } catch (error: any) {
+      if (!isUploadCancelled(error)) {
+        console.error('Unable to create group', error);
+        Alert.alert('Error', error?.message ?? 'Could not create the group.');
+      }
+      setCreating(false);
+    }
+  }, [creating, currentUser, name, navigation, photo, selected]);
+
+  const renderItem = ({ item }: { item: string }) => {
+    const profile = profiles[item];
+    const checked = selected.includes(item);
+    return (
+      <TouchableOpacity style={styles.row} onPress={() => toggleMember(item)} activeOpacity={0.85}>
+        <Avatar label={profile?.username || '?'} uri={profile?.photoUrl} size={44} />
+        <Text style={styles.rowName} numberOfLines={1}>
+          {profile?.username || 'Unknown user'}
+        </Text>
+        <Icon
+          name={checked ? 'checkmark-circle' : 'ellipse-outline'}
+          size={24}
+          color={checked ? palette.primary : palette.textMuted}
+        />
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.safeArea} edges={['right', 'bottom', 'left']}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={pickPhoto} disabled={creating}>
+          {photo ? (
+            <Avatar uri={photo.uri} size={64} />
+          ) : (
+            <View style={styles.photoPlaceholder}>
+              <Icon name="camera-outline" size={26} color={palette.textMuted} />
+            </View>
+          )}
+        </TouchableOpacity>
+        <TextInput
+          style={styles.nameInput}
+          value={name}
+          onChangeText={setName}
+          placeholder="Group name"
+          placeholderTextColor={palette.textMuted}
+          maxLength={MAX_GROUP_NAME_LENGTH}
+          editable={!creating}
+        />
+      </View>
+      <Text style={styles.sectionTitle}>
+        Add people you follow{selected.length ? ` · ${selected.length} selected` : ''}
+      </Text>
+      {graph.loading ? (
+        <ActivityIndicator color={palette.primary} style={styles.loader} />
+      ) : (
+        <FlatList
+          data={graph.following}
+          keyExtractor={(item) => item}
+          renderItem={renderItem}
+          extraData={selected}
+          ListEmptyComponent={<Text style={styles.emptyText}>Follow people to start a group with them.</Text>}
+        />
+      )}
+      <View style={styles.footer}>
+        <Button
+          label="Create group"
+          onPress={create}
+          loading={creating}
+          disabled={!name.trim() || !selected.length}
+          icon="people"
+        />
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: palette.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+    padding: spacing.lg,
+  },
+  photoPlaceholder: {
+    width: 64,
+    height: 64,
+    borderRadius: 32,
+    backgroundColor: palette.surfaceAlt,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  nameInput: {
+    ...typography.body,
+    flex: 1,
+    color: palette.text,
+    backgroundColor: palette.surfaceAlt,
+    borderRadius: radii.md,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.md,
+  },
+  sectionTitle: {
+    color: palette.textMuted,
+    fontSize: 13,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    paddingHorizontal: spacing.lg,
+    marginBottom: spacing.sm,
+  },
+  loader: {
+    marginTop: spacing.xl,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.sm,
+  },
+  rowName: {
+    flex: 1,
+    color: palette.text,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  emptyText: {
+    color: palette.textMuted,
+    textAlign: 'center',
+    marginTop: spacing.xl,
+  },
+  footer: {
+    padding: spacing.lg,
+  },
+});
+
+export default NewGroupScreen;
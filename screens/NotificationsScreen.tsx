@@ -0,0 +1,207 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import { Alert, FlatList, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import Avatar from '../components/ui/Avatar';
+import StateView from '../components/ui/StateView';
+import { auth } from '../services/firebase';
+import { describeNotificationGroup, markNotificationsRead, NotificationGroup } from '../services/notifications';
+import { useNotifications } from '../hooks/useNotifications';
+import { useProfiles } from '../hooks/useProfiles';
+import { formatRelativeTime } from '../utils/format';
+import { palette, radii, spacing } from '../theme/tokens';
+import { RootStackParamList } from '../types/navigation';
+
+const Separator = () => <View style={styles.separator} />;
+
+const NotificationsScreen: React.FC = () => {
+  const currentUser = auth.currentUser;
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+  const { groups, unreadIds, loading } = useNotifications(currentUser?.uid);
+  const [markingAll, setMarkingAll] = useState(false);
+  const actorIds = useMemo(() => groups.flatMap((group) => group.actorIds), [groups]);
+  const profiles = useProfiles(actorIds);
+
+  const nameFor = useCallback((uid: string) => profiles[uid]?.username || 'Someone', [profiles]);
+
+  const handleMarkAllRead = async () => {
+    if (!currentUser || !unreadIds.length) {
+      return;
+    }
+    setMarkingAll(true);
+    try {
+      await markNotificationsRead(currentUser.uid, unreadIds);
+    } catch (error: any) {
+      console.error('Failed to mark notifications read', error);
+      Alert.alert('Could not update activity', error?.message ?? 'Please try again.');
+    } finally {
+      setMarkingAll(false);
+    }
+  };
+
+  const openGroup = (group: NotificationGroup) => {
+    if (!currentUser) {
+      return;
+    }
+    const unread = group.read ? [] : group.ids;
+    if (unread.length) {
+      markNotificationsRead(currentUser.uid, unread).catch((error) =>
+        console.error('Failed to mark notifications read', error)
+      );
+    }
+    const { latest } = group;
+    switch (group.type) {
+      case 'like':
+      case 'reply':
+        if (latest.postId) {
+          navigation.navigate('PostDetail', { postId: latest.postId });
+        }
+        break;
+      case 'comment':
+        if (latest.postId) {
+          navigation.navigate('Comments', { postId: latest.postId, postOwnerId: currentUser.uid });
+        }
+        break;
+      case 'follow_request':
+        navigation.navigate('AppTabs', { screen: 'Friends', params: { tab: 'requests' } });
+        break;
+      case 'follow_accept':
+        navigation.navigate('UserProfile', { userId: latest.actorId });
+        break;
+      case 'message':
+        if (latest.chatId) {
+          navigation.navigate('Chat', { chatId: latest.chatId });
+        }
+        break;
+    }
+  };
+
+  if (!currentUser) {
+    return (
+      <SafeAreaView style={styles.safeArea}>
+        <StateView title="Please sign in" description="Sign in to see your activity." />
+      </SafeAreaView>
+    );
+  }
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.safeArea}>
+        <StateView title="Loading activity" loading />
+      </SafeAreaView>
+    );
+  }
+
+  const renderItem = ({ item }: { item: NotificationGroup }) => {
+    const actor = profiles[item.actorIds[0]];
+    return (
+      <TouchableOpacity style={styles.row} onPress={() => openGroup(item)} activeOpacity={0.85}>
+        <Avatar label={nameFor(item.actorIds[0])} uri={actor?.photoUrl} size={44} />
+        <View style={styles.rowText}>
+          <Text style={[styles.message, !item.read && styles.unreadText]} numberOfLines={3}>
+            {describeNotificationGroup(item, nameFor)}
+          </Text>
+          <Text style={styles.time}>{formatRelativeTime(item.latest.createdAt)}</Text>
+        </View>
+        {!item.read ? <View style={styles.unreadDot} /> : null}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.safeArea} edges={['top', 'right', 'left']}>
+      <View style={styles.titleRow}>
+        <Text style={styles.title}>Activity</Text>
+        {unreadIds.length ? (
+          <TouchableOpacity onPress={handleMarkAllRead} disabled={markingAll} hitSlop={8}>
+            <Text style={[styles.markAll, markingAll && styles.markAllDisabled]}>Mark all read</Text>
+          </TouchableOpacity>
+        ) : null}
+      </View>
+      <FlatList
+        data={groups}
+        keyExtractor={(item) => item.key}
+        renderItem={renderItem}
+        ItemSeparatorComponent={Separator}
+        ListEmptyComponent={
+          <StateView
+            title="No activity yet"
+            description="Likes, comments, follows and messages will show up here."
+          />
+        }
+        contentContainerStyle={groups.length === 0 ? styles.flexGrow : styles.listContent}
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: palette.background,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.lg,
+    paddingTop: spacing.lg,
+    paddingBottom: spacing.md,
+  },
+  title: {
+    color: palette.text,
+    fontSize: 24,
+    fontWeight: '700',
+  },
+  markAll: {
+    color: palette.primary,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  markAllDisabled: {
+    opacity: 0.5,
+  },
+  listContent: {
+    paddingBottom: spacing.xl,
+  },
+  flexGrow: {
+    flexGrow: 1,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+  },
+  rowText: {
+    flex: 1,
+    gap: 4,
+  },
+  message: {
+    color: palette.textMuted,
+    fontSize: 14,
+  },
+  unreadText: {
+    color: palette.text,
+    fontWeight: '600',
+  },
+  time: {
+    color: palette.textMuted,
+    fontSize: 12,
+  },
+  unreadDot: {
+    width: 10,
+    height: 10,
+    borderRadius: radii.pill,
+    backgroundColor: palette.primary,
+  },
+  separator: {
+    height: StyleSheet.hairlineWidth,
+    backgroundColor: palette.border,
+    marginLeft: spacing.lg + 44 + spacing.md,
+  },
+});
+
+export default NotificationsScreen;
@@ -0,0 +1,89 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ScrollView, StyleSheet } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { doc, onSnapshot } from 'firebase/firestore';
+import PostCard from '../components/PostCard';
+import StateView from '../components/ui/StateView';
+import { auth, db } from '../services/firebase';
+import { useProfiles } from '../hooks/useProfiles';
+import { palette, spacing } from '../theme/tokens';
+import { Post } from '../types/post';
+import { RootStackParamList } from '../types/navigation';
+
+type Props = NativeStackScreenProps<RootStackParamList, 'PostDetail'>;
+
+const PostDetailScreen: React.FC<Props> = ({ route, navigation }) => {
+  const { postId } = route.params;
+  const currentUser = auth.currentUser;
+  const [post, setPost] = useState<Post | null>(null);
+  const [loading, setLoading] = useState(true);
+  // Tells "deleted while open" apart from a link that never pointed at a post.
+  const seenRef = useRef(false);
+  const profiles = useProfiles(post ? [post.userId] : []);
+
+  useEffect(() => {
+    setLoading(true);
+    seenRef.current = false;
+    return onSnapshot(
+      doc(db, 'posts', postId),
+      (snapshot) => {
+        seenRef.current = seenRef.current || snapshot.exists();
+        setPost(
+          snapshot.exists()
+            ? { ...(snapshot.data({ serverTimestamps: 'estimate' }) as Omit<Post, 'id'>), id: snapshot.id }
+            : null
+        );
+        setLoading(false);
+      },
+      (error) => {
+        console.error('Error loading post', error);
+        setPost(null);
+        setLoading(false);
+      }
+    );
+  }, [postId]);
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.safeArea}>
+        <StateView title="Loading post" loading />
+      </SafeAreaView>
+    );
+  }
+
+  if (!post) {
+    return (
+      <SafeAreaView style={styles.safeArea}>
+        <StateView
+          title="Post unavailable"
+          description={
+            seenRef.current ? 'This post was just deleted.' : "This post was deleted or the link doesn't point to a post."
+          }
+          actionLabel="Back to feed"
+          onAction={() => navigation.navigate('AppTabs')}
+        />
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.safeArea} edges={['right', 'bottom', 'left']}>
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <PostCard post={post} currentUserId={currentUser?.uid ?? ''} profile={profiles[post.userId]} />
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: palette.background,
+  },
+  content: {
+    paddingBottom: spacing.xl,
+  },
+});
+
+export default PostDetailScreen;
@@ -1,4 +1,4 @@
-import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
   ActivityIndicator,
   Alert,
@@ -8,35 +8,45 @@ import {
   TouchableOpacity,
   View,
 } from 'react-native';
-import Icon from 'react-native-vector-icons/Ionicons';
 import { signOut } from 'firebase/auth';
-import {
-  collection,
-  doc,
-  getCountFromServer,
-  getDoc,
-  query,
-  updateDoc,
-  where,
-} from 'firebase/firestore';
+import { doc, getDoc, updateDoc } from 'firebase/firestore';
 import { launchImageLibrary } from 'react-native-image-picker';
-import axios from 'axios';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import Screen from '../components/ui/Screen';
 import Surface from '../components/ui/Surface';
 import Button from '../components/ui/Button';
 import Avatar from '../components/ui/Avatar';
+import HighlightsRow from '../components/HighlightsRow';
+import PostGrid from '../components/PostGrid';
+import SaveToCollectionSheet from '../components/SaveToCollectionSheet';
 import { auth, db } from '../services/firebase';
-import { cloudinaryUploadPreset, cloudinaryUrl } from '../services/cloudinary';
-import { palette, spacing, typography } from '../theme/tokens';
+import { deleteSavedCollection } from '../services/saved';
+import { fetchProfileStats, ProfileStats } from '../services/profiles';
+import { isUploadCancelled, uploadMedia } from '../services/upload';
+import { useSavedPosts } from '../hooks/useSavedPosts';
+import { useUserPosts } from '../hooks/useUserPosts';
+import { palette, radii, spacing, typography } from '../theme/tokens';
+import { RootStackParamList } from '../types/navigation';
+
+type ProfileTab = 'posts' | 'saved' | 'about';
 
 const ProfileScreen: React.FC = () => {
   const user = auth.currentUser;
   const [username, setUsername] = useState(user?.displayName || 'Explorer');
   const [photoUrl, setPhotoUrl] = useState<string | null>(user?.photoURL ?? null);
   const [bio, setBio] = useState('');
-  const [stats, setStats] = useState({ posts: 0, friends: 0 });
+  const [stats, setStats] = useState<ProfileStats>({ posts: 0, following: 0, followers: 0 });
   const [uploadingPhoto, setUploadingPhoto] = useState(false);
+  const [photoProgress, setPhotoProgress] = useState(0);
+  const uploadAbortRef = useRef<AbortController | null>(null);
   const [savingProfile, setSavingProfile] = useState(false);
+  const [tab, setTab] = useState<ProfileTab>('posts');
+  const [collectionFilter, setCollectionFilter] = useState<string | null>(null);
+  const [organizingId, setOrganizingId] = useState<string | null>(null);
+  const savedPosts = useSavedPosts(user?.uid);
+  const ownPosts = useUserPosts(user?.uid);
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
 
   useEffect(() => {
     let mounted = true;
@@ -61,15 +71,9 @@ const ProfileScreen: React.FC = () => {
         return;
       }
       try {
-        const [postsCount, friendsCount] = await Promise.all([
-          getCountFromServer(query(collection(db, 'posts'), where('userId', '==', user.uid))),
-          getCountFromServer(collection(db, 'users', user.uid, 'friends')),
-        ]);
+        const nextStats = await fetchProfileStats(user.uid);
         if (mounted) {
-          setStats({
-            posts: postsCount.data().count,
-            friends: friendsCount.data().count,
-          });
+          setStats(nextStats);
         }
       } catch (error) {
         console.error('Failed to load stats', error);
@@ -83,6 +87,8 @@ const ProfileScreen: React.FC = () => {
     };
   }, [user]);
 
+  useEffect(() => () => uploadAbortRef.current?.abort(), []);
+
   const initials = useMemo(() => username?.charAt(0) ?? '?', [username]);
 
   const handleSelectAvatar = useCallback(async () => {
@@ -90,11 +96,12 @@ const ProfileScreen: React.FC = () => {
       return;
     }
 
-    if (!cloudinaryUrl || !cloudinaryUploadPreset) {
-      Alert.alert('Missing configuration', 'Cloudinary credentials are not set.');
+    if (uploadingPhoto) {
+      uploadAbortRef.current?.abort();
       return;
     }
 
+    const controller = new AbortController();
     try {
       const result = await launchImageLibrary({ mediaType: 'photo', selectionLimit: 1 });
       if (result.didCancel) {
@@ -107,32 +114,33 @@ const ProfileScreen: React.FC = () => {
       }
 
       setUploadingPhoto(true);
-      const formData = new FormData();
-      formData.append('file', {
-        uri: asset.uri,
-        type: asset.type ?? 'image/jpeg',
-        name: asset.fileName ?? `avatar-${Date.now()}.jpg`,
-      } as any);
-      formData.append('upload_preset', cloudinaryUploadPreset);
-
-      const response = await axios.post(cloudinaryUrl, formData, {
-        headers: { 'Content-Type': 'multipart/form-data' },
-      });
-
-      const nextUrl: string | undefined = response.data?.secure_url;
-      if (!nextUrl) {
-        throw new Error('Upload succeeded but no URL was returned.');
-      }
+      setPhotoProgress(0);
+      uploadAbortRef.current = controller;
+      const { url: nextUrl } = await uploadMedia(
+        {
+          uri: asset.uri,
+          type: asset.type ?? 'image/jpeg',
+          fileName: asset.fileName ?? `avatar-${Date.now()}.jpg`,
+          fileSize: asset.fileSize,
+        },
+        { onProgress: setPhotoProgress, signal: controller.signal }
+      );
 
       await updateDoc(doc(db, 'users', user.uid), { photoUrl: nextUrl });
       setPhotoUrl(nextUrl);
-    } catch (error) {
+    } catch (error: any) {
+      if (isUploadCancelled(error)) {
+        return;
+      }
       console.error('Avatar upload failed', error);
-      Alert.alert('Upload failed', 'Unable to update your profile photo right now.');
+      Alert.alert('Upload failed', error?.message ?? 'Unable to update your profile photo right now.');
     } finally {
+      if (uploadAbortRef.current === controller) {
+        uploadAbortRef.current = null;
+      }
       setUploadingPhoto(false);
     }
-  }, [user]);
+  }, [uploadingPhoto, user]);
 
   const handleSaveProfile = useCallback(async () => {
     if (!user) {
@@ -150,6 +158,42 @@ const ProfileScreen: React.FC = () => {
     }
   }, [bio, user]);
 
+  const visibleSaved = useMemo(
+    () =>
+      collectionFilter
+        ? savedPosts.entries.filter((entry) => entry.collectionIds?.includes(collectionFilter))
+        : savedPosts.entries,
+    [collectionFilter, savedPosts.entries]
+  );
+  const organizing = savedPosts.entries.find((entry) => entry.postId === organizingId);
+
+  useEffect(() => {
+    if (collectionFilter && !savedPosts.collections.some((entry) => entry.id === collectionFilter)) {
+      setCollectionFilter(null);
+    }
+  }, [collectionFilter, savedPosts.collections]);
+
+  const confirmDeleteCollection = useCallback(
+    (collectionId: string, name: string) => {
+      if (!user) {
+        return;
+      }
+      Alert.alert(`Delete "${name}"?`, 'Posts in it stay in your saved items.', [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () =>
+            deleteSavedCollection(user.uid, collectionId).catch((error) => {
+              console.error('Failed to delete collection', error);
+              Alert.alert('Delete failed', 'Unable to delete this collection right now.');
+            }),
+        },
+      ]);
+    },
+    [user]
+  );
+
   if (!user) {
     return (
       <Screen>
@@ -158,6 +202,14 @@ const ProfileScreen: React.FC = () => {
     );
   }
 
+  const tabs: { key: ProfileTab; label: string; count?: number }[] = [
+    { key: 'posts', label: 'Posts' },
+    { key: 'saved', label: 'Saved', count: savedPosts.entries.length },
+    { key: 'about', label: 'About' },
+  ];
+
+  const openPost = (postId: string) => navigation.navigate('PostDetail', { postId });
+
   return (
     <Screen scrollable contentContainerStyle={styles.container}>
       <Surface elevated padding="xl" style={styles.headerCard}>
@@ -166,7 +218,6 @@ const ProfileScreen: React.FC = () => {
             onPress={handleSelectAvatar}
             activeOpacity={0.8}
             style={styles.avatarTap}
-            disabled={uploadingPhoto}
           >
             <Avatar label={initials} uri={photoUrl} size={96} />
             {uploadingPhoto ? (
@@ -175,7 +226,9 @@ const ProfileScreen: React.FC = () => {
               </View>
             ) : null}
           </TouchableOpacity>
-          <Text style={styles.changePhoto}>{uploadingPhoto ? 'Uploading…' : 'Change photo'}</Text>
+          <Text style={styles.changePhoto}>
+            {uploadingPhoto ? `Uploading ${Math.round(photoProgress * 100)}% · Tap to cancel` : 'Change photo'}
+          </Text>
         </View>
         <View style={styles.headerText}>
           <Text style={styles.name}>{username}</Text>
@@ -190,34 +243,114 @@ const ProfileScreen: React.FC = () => {
         </View>
         <View style={styles.divider} />
         <View style={styles.statItem}>
-          <Text style={styles.statValue}>{stats.friends}</Text>
+          <Text style={styles.statValue}>{stats.following}</Text>
           <Text style={styles.statLabel}>Following</Text>
         </View>
         <View style={styles.divider} />
         <View style={styles.statItem}>
-          <Icon name="heart" size={24} color={palette.danger} />
-          <Text style={styles.statLabel}>Activity</Text>
+          <Text style={styles.statValue}>{stats.followers}</Text>
+          <Text style={styles.statLabel}>Followers</Text>
         </View>
       </Surface>
 
-      <Surface padding="lg" style={styles.aboutCard}>
-        <Text style={styles.sectionTitle}>About you</Text>
-        <TextInput
-          style={styles.bioInput}
-          placeholder="Share a short bio"
-          placeholderTextColor={palette.textMuted}
-          value={bio}
-          onChangeText={setBio}
-          multiline
-        />
-        <Button
-          label={savingProfile ? 'Saving…' : 'Save profile'}
-          onPress={handleSaveProfile}
-          disabled={savingProfile}
-        />
-      </Surface>
+      <HighlightsRow userId={user.uid} currentUserId={user.uid} style={styles.highlights} />
+
+      <View style={styles.tabs}>
+        {tabs.map((entry) => (
+          <TouchableOpacity
+            key={entry.key}
+            style={[styles.tabButton, tab === entry.key && styles.tabButtonActive]}
+            onPress={() => setTab(entry.key)}
+            activeOpacity={0.85}
+          >
+            <Text style={[styles.tabLabel, tab === entry.key && styles.tabLabelActive]}>
+              {entry.label}
+              {entry.count ? ` · ${entry.count}` : ''}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {tab === 'posts' ? (
+        <View style={styles.tabSection}>
+          {ownPosts.loading ? (
+            <ActivityIndicator color={palette.primary} />
+          ) : ownPosts.posts.length ? (
+            <PostGrid posts={ownPosts.posts} onPressPost={(post) => openPost(post.id)} />
+          ) : (
+            <Text style={styles.emptyTab}>Your posts will show up here.</Text>
+          )}
+          {ownPosts.hasMore ? (
+            <Button
+              label="Show more"
+              variant="ghost"
+              onPress={ownPosts.loadMore}
+              loading={ownPosts.loadingMore}
+            />
+          ) : null}
+        </View>
+      ) : tab === 'about' ? (
+        <Surface padding="lg" style={styles.aboutCard}>
+          <Text style={styles.sectionTitle}>About you</Text>
+          <TextInput
+            style={styles.bioInput}
+            placeholder="Share a short bio"
+            placeholderTextColor={palette.textMuted}
+            value={bio}
+            onChangeText={setBio}
+            multiline
+          />
+          <Button
+            label={savingProfile ? 'Saving…' : 'Save profile'}
+            onPress={handleSaveProfile}
+            disabled={savingProfile}
+          />
+        </Surface>
+      ) : (
+        <View style={styles.tabSection}>
+          <View style={styles.chips}>
+            {[{ id: null, name: 'All' }, ...savedPosts.collections].map((entry) => {
+              const active = collectionFilter === entry.id;
+              return (
+                <TouchableOpacity
+                  key={entry.id ?? 'all'}
+                  style={[styles.chip, active && styles.chipActive]}
+                  onPress={() => setCollectionFilter(entry.id)}
+                  onLongPress={entry.id ? () => confirmDeleteCollection(entry.id!, entry.name) : undefined}
+                >
+                  <Text style={[styles.chipLabel, active && styles.chipLabelActive]}>{entry.name}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          {savedPosts.loading ? (
+            <ActivityIndicator color={palette.primary} />
+          ) : visibleSaved.length ? (
+            <PostGrid
+              posts={visibleSaved.map((entry) => entry.post)}
+              onPressPost={(post) => openPost(post.id)}
+              onLongPressPost={(post) => setOrganizingId(post.id)}
+            />
+          ) : (
+            <Text style={styles.emptyTab}>
+              {collectionFilter
+                ? 'Nothing in this collection yet. Long-press a saved post to add it.'
+                : 'Tap the bookmark on a post to save it here.'}
+            </Text>
+          )}
+        </View>
+      )}
 
       <Button label="Log out" variant="secondary" onPress={() => signOut(auth)} icon="log-out-outline" />
+
+      <SaveToCollectionSheet
+        visible={!!organizing}
+        uid={user.uid}
+        postId={organizingId ?? ''}
+        collections={savedPosts.collections}
+        selectedIds={organizing?.collectionIds ?? []}
+        onClose={() => setOrganizingId(null)}
+      />
     </Screen>
   );
 };
@@ -227,6 +360,9 @@ const styles = StyleSheet.create({
     gap: spacing.lg,
     paddingBottom: spacing.xxl,
   },
+  highlights: {
+    marginHorizontal: -spacing.xl,
+  },
   headerCard: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -286,6 +422,60 @@ const styles = StyleSheet.create({
     backgroundColor: palette.border,
     marginHorizontal: spacing.lg,
   },
+  tabs: {
+    flexDirection: 'row',
+    backgroundColor: palette.surfaceAlt,
+    borderRadius: radii.pill,
+    padding: 4,
+  },
+  tabButton: {
+    flex: 1,
+    paddingVertical: spacing.sm,
+    borderRadius: radii.pill,
+    alignItems: 'center',
+  },
+  tabButtonActive: {
+    backgroundColor: palette.primary,
+  },
+  tabLabel: {
+    color: palette.text,
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  tabLabelActive: {
+    color: '#031418',
+  },
+  tabSection: {
+    gap: spacing.md,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+    borderRadius: radii.pill,
+    borderWidth: 1,
+    borderColor: palette.border,
+  },
+  chipActive: {
+    backgroundColor: palette.surfaceAlt,
+    borderColor: palette.primary,
+  },
+  chipLabel: {
+    color: palette.textMuted,
+    fontSize: 14,
+  },
+  chipLabelActive: {
+    color: palette.text,
+  },
+  emptyTab: {
+    color: palette.textMuted,
+    textAlign: 'center',
+    marginVertical: spacing.lg,
+  },
   aboutCard: {
     gap: spacing.sm,
   },
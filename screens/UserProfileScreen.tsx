@@ -0,0 +1,224 @@
+import React, { useEffect, useState } from 'react';
+import { ActivityIndicator, ScrollView, StyleSheet, Text, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { doc, onSnapshot } from 'firebase/firestore';
+import Avatar from '../components/ui/Avatar';
+import Button from '../components/ui/Button';
+import StateView from '../components/ui/StateView';
+import Surface from '../components/ui/Surface';
+import FollowButton from '../components/FollowButton';
+import HighlightsRow from '../components/HighlightsRow';
+import PostGrid from '../components/PostGrid';
+import { auth, db } from '../services/firebase';
+import { fetchProfileStats, ProfileStats } from '../services/profiles';
+import { useFollowGraph } from '../hooks/useFollowGraph';
+import { useUserPosts } from '../hooks/useUserPosts';
+import { palette, spacing, typography } from '../theme/tokens';
+import { RootStackParamList } from '../types/navigation';
+
+type Props = NativeStackScreenProps<RootStackParamList, 'UserProfile'>;
+
+type PublicProfile = {
+  username?: string;
+  photoUrl?: string;
+  bio?: string;
+};
+
+const UserProfileScreen: React.FC<Props> = ({ route, navigation }) => {
+  const { userId } = route.params;
+  const currentUser = auth.currentUser;
+  const [profile, setProfile] = useState<PublicProfile | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [stats, setStats] = useState<ProfileStats | null>(null);
+  const graph = useFollowGraph(currentUser?.uid);
+  const posts = useUserPosts(userId);
+  const isSelf = currentUser?.uid === userId;
+  const followState = graph.followStateFor(userId);
+
+  useEffect(() => {
+    setLoading(true);
+    return onSnapshot(
+      doc(db, 'users', userId),
+      (snapshot) => {
+        setProfile(snapshot.exists() ? (snapshot.data() as PublicProfile) : null);
+        setLoading(false);
+      },
+      (error) => {
+        console.error('Error loading profile', error);
+        setLoading(false);
+      }
+    );
+  }, [userId]);
+
+  // Counts are refetched when this user follows or unfollows so the header stays in step.
+  useEffect(() => {
+    let mounted = true;
+    fetchProfileStats(userId)
+      .then((nextStats) => {
+        if (mounted) {
+          setStats(nextStats);
+        }
+      })
+      .catch((error) => console.error('Failed to load stats', error));
+    return () => {
+      mounted = false;
+    };
+  }, [followState, userId]);
+
+  const username = profile?.username || 'Unknown user';
+
+  useEffect(() => {
+    navigation.setOptions({ title: profile?.username ?? '' });
+  }, [navigation, profile?.username]);
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.safeArea}>
+        <StateView title="Loading profile" loading />
+      </SafeAreaView>
+    );
+  }
+
+  if (!profile) {
+    return (
+      <SafeAreaView style={styles.safeArea}>
+        <StateView
+          title="Profile unavailable"
+          description="This account doesn't exist or was removed."
+          actionLabel="Back to feed"
+          onAction={() => navigation.navigate('AppTabs')}
+        />
+      </SafeAreaView>
+    );
+  }
+
+  const statItems = [
+    { label: 'Posts', value: stats?.posts },
+    { label: 'Followers', value: stats?.followers },
+    { label: 'Following', value: stats?.following },
+  ];
+
+  return (
+    <SafeAreaView style={styles.safeArea} edges={['right', 'bottom', 'left']}>
+      <ScrollView contentContainerStyle={styles.content}>
+        <View style={styles.header}>
+          <Avatar label={username} uri={profile.photoUrl} size={88} />
+          <View style={styles.stats}>
+            {statItems.map((item) => (
+              <View key={item.label} style={styles.statItem}>
+                <Text style={styles.statValue}>{item.value ?? '–'}</Text>
+                <Text style={styles.statLabel}>{item.label}</Text>
+              </View>
+            ))}
+          </View>
+        </View>
+
+        <Text style={styles.name}>{username}</Text>
+        {profile.bio ? <Text style={styles.bio}>{profile.bio}</Text> : null}
+
+        {currentUser && !isSelf ? (
+          <View style={styles.actions}>
+            <FollowButton
+              uid={currentUser.uid}
+              targetId={userId}
+              username={username}
+              state={followState}
+              style={styles.actionButton}
+            />
+            <Button
+              label="Chat"
+              variant="ghost"
+              icon="chatbubble-outline"
+              onPress={() => navigation.navigate('Chat', { friendId: userId, friendName: username })}
+              style={styles.actionButton}
+            />
+          </View>
+        ) : null}
+
+        <HighlightsRow userId={userId} currentUserId={currentUser?.uid} style={styles.highlights} />
+
+        <Surface padding="sm" style={styles.gridCard}>
+          {posts.loading ? (
+            <ActivityIndicator color={palette.primary} style={styles.loader} />
+          ) : posts.posts.length ? (
+            <PostGrid
+              posts={posts.posts}
+              onPressPost={(post) => navigation.push('PostDetail', { postId: post.id })}
+            />
+          ) : (
+            <Text style={styles.emptyText}>No posts yet.</Text>
+          )}
+        </Surface>
+        {posts.hasMore ? (
+          <Button label="Show more" variant="ghost" onPress={posts.loadMore} loading={posts.loadingMore} />
+        ) : null}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: palette.background,
+  },
+  content: {
+    padding: spacing.lg,
+    paddingBottom: spacing.xxl,
+    gap: spacing.md,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.lg,
+  },
+  stats: {
+    flex: 1,
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+  },
+  statItem: {
+    alignItems: 'center',
+  },
+  statValue: {
+    color: palette.text,
+    fontSize: 20,
+    fontWeight: '600',
+  },
+  statLabel: {
+    color: palette.textMuted,
+    fontSize: 13,
+  },
+  name: {
+    ...typography.title,
+    fontSize: 20,
+  },
+  bio: {
+    ...typography.body,
+    color: palette.text,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+  },
+  actionButton: {
+    flex: 1,
+  },
+  highlights: {
+    marginHorizontal: -spacing.lg,
+  },
+  gridCard: {
+    overflow: 'hidden',
+  },
+  loader: {
+    marginVertical: spacing.xl,
+  },
+  emptyText: {
+    color: palette.textMuted,
+    textAlign: 'center',
+    marginVertical: spacing.xl,
+  },
+});
+
+export default UserProfileScreen;
@@ -4,6 +4,7 @@ import { NativeStackScreenProps } from '@react-navigation/native-stack';
 import { createUserWithEmailAndPassword, updateProfile } from 'firebase/auth';
 import { doc, serverTimestamp, setDoc } from 'firebase/firestore';
 import { auth, db } from '../../services/firebase';
+import { normalizeUsername } from '../../services/profiles';
 import { AuthStackParamList } from '../../types/navigation';
 import Screen from '../../components/ui/Screen';
 import Button from '../../components/ui/Button';
@@ -50,6 +51,7 @@ const RegisterScreen: React.FC<Props> = ({ navigation }) => {
         uid: user.uid,
         email: user.email,
         username: username.trim(),
+        usernameLower: normalizeUsername(username),
         bio: '',
         photoUrl: '',
         createdAt: serverTimestamp(),
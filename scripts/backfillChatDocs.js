@@ -0,0 +1,127 @@
+/**
+ * Creates the missing `chats/{chatId}` doc for direct chats started before the
+ * inbox existed, which only have a `messages` subcollection. The doc is built
+ * from the chat id's two members and the latest message.
+ *
+ *   FIRESTORE_EMULATOR_HOST=localhost:8080 npm run backfill:chats [-- --dry-run]
+ *
+ * Runs with the web SDK against the Firestore emulator only; against a real
+ * project the same one-off pass belongs in an admin script. Safe to repeat:
+ * chats that already have a doc are left alone.
+ */
+const { initializeApp } = require('firebase/app');
+const {
+  collection,
+  collectionGroup,
+  connectFirestoreEmulator,
+  doc,
+  getDocFromServer,
+  getDocsFromServer,
+  getFirestore,
+  limit,
+  orderBy,
+  query,
+  serverTimestamp,
+  setDoc,
+  startAfter,
+  terminate,
+} = require('firebase/firestore');
+
+const PAGE_SIZE = 500;
+
+// Messages written before `type` existed only carry an `audioPath`/`videoPath`.
+const messageType = (message) =>
+  message.type || (message.audioPath ? 'audio' : message.videoPath ? 'video' : 'text');
+
+const backfillChat = async (db, chatId) => {
+  const chatRef = doc(db, 'chats', chatId);
+  if ((await getDocFromServer(chatRef)).exists()) {
+    return 'exists';
+  }
+  const members = chatId.split('_');
+  if (members.length !== 2) {
+    // Groups always had a doc; without one their members can't be recovered.
+    return 'skipped';
+  }
+  const latest = await getDocsFromServer(
+    query(collection(chatRef, 'messages'), orderBy('createdAt', 'desc'), limit(1))
+  );
+  if (latest.empty) {
+    return 'skipped';
+  }
+  const [message] = latest.docs;
+  const data = message.data();
+  return {
+    ref: chatRef,
+    data: {
+      participants: members,
+      lastMessage: {
+        id: message.id,
+        senderId: data.senderId,
+        type: messageType(data),
+        ...(data.text ? { text: data.text } : {}),
+        ...(data.deleted ? { deleted: true } : {}),
+      },
+      lastMessageAt: data.createdAt ?? serverTimestamp(),
+      unreadCounts: {},
+    },
+  };
+};
+
+const main = async () => {
+  const host = process.env.FIRESTORE_EMULATOR_HOST;
+  if (!host) {
+    throw new Error('Set FIRESTORE_EMULATOR_HOST (for example localhost:8080) to run against the emulator.');
+  }
+  const [hostname, port] = host.split(':');
+  const dryRun = process.argv.includes('--dry-run');
+  const app = initializeApp({
+    apiKey: 'emulator',
+    projectId: process.env.FIREBASE_PROJECT_ID || process.env.GCLOUD_PROJECT || 'demo-socialgram',
+  });
+  const db = getFirestore(app);
+  connectFirestoreEmulator(db, hostname, Number(port));
+
+  const seen = new Set();
+  const counts = { created: 0, exists: 0, skipped: 0 };
+  let cursor = null;
+  try {
+    for (;;) {
+      const constraints = cursor ? [startAfter(cursor), limit(PAGE_SIZE)] : [limit(PAGE_SIZE)];
+      // Server reads, so an unreachable emulator fails instead of reporting an empty cache.
+      const messages = await getDocsFromServer(query(collectionGroup(db, 'messages'), ...constraints));
+      if (messages.empty) {
+        break;
+      }
+      cursor = messages.docs[messages.docs.length - 1];
+
+      for (const message of messages.docs) {
+        const chatRef = message.ref.parent.parent;
+        if (!chatRef || chatRef.parent.id !== 'chats' || seen.has(chatRef.id)) {
+          continue;
+        }
+        seen.add(chatRef.id);
+        const result = await backfillChat(db, chatRef.id);
+        if (typeof result === 'string') {
+          counts[result] += 1;
+          continue;
+        }
+        counts.created += 1;
+        if (!dryRun) {
+          await setDoc(result.ref, result.data);
+        }
+      }
+    }
+    console.log(
+      `${dryRun ? 'Would create' : 'Created'} ${counts.created} chat docs; ` +
+        `${counts.exists} already had one, ${counts.skipped} could not be rebuilt.`
+    );
+  } finally {
+    await terminate(db);
+  }
+};
+
+main().catch((error) => {
+  console.error('Chat backfill failed:', error.message ?? error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,88 @@
+/**
+ * Writes the missing `users/{b}/followers/{a}` mirror for every follow edge
+ * `users/{a}/friends/{b}` made before follow requests existed.
+ *
+ *   FIRESTORE_EMULATOR_HOST=localhost:8080 npm run backfill:followers [-- --dry-run]
+ *
+ * Runs with the web SDK against the Firestore emulator only; against a real
+ * project the same one-off pass belongs in an admin script. Safe to repeat:
+ * edges that already have a mirror are left alone.
+ */
+const { initializeApp } = require('firebase/app');
+const {
+  collectionGroup,
+  connectFirestoreEmulator,
+  doc,
+  getDocFromServer,
+  getDocsFromServer,
+  getFirestore,
+  limit,
+  query,
+  serverTimestamp,
+  startAfter,
+  terminate,
+  writeBatch,
+} = require('firebase/firestore');
+
+const PAGE_SIZE = 200;
+// Firestore caps a batch at 500 writes.
+const BATCH_LIMIT = 450;
+
+const main = async () => {
+  const host = process.env.FIRESTORE_EMULATOR_HOST;
+  if (!host) {
+    throw new Error('Set FIRESTORE_EMULATOR_HOST (for example localhost:8080) to run against the emulator.');
+  }
+  const [hostname, port] = host.split(':');
+  const dryRun = process.argv.includes('--dry-run');
+  const app = initializeApp({
+    apiKey: 'emulator',
+    projectId: process.env.FIREBASE_PROJECT_ID || process.env.GCLOUD_PROJECT || 'demo-socialgram',
+  });
+  const db = getFirestore(app);
+  connectFirestoreEmulator(db, hostname, Number(port));
+
+  let scanned = 0;
+  let mirrored = 0;
+  let cursor = null;
+  try {
+    for (;;) {
+      const constraints = cursor ? [startAfter(cursor), limit(PAGE_SIZE)] : [limit(PAGE_SIZE)];
+      // Server reads, so an unreachable emulator fails instead of reporting an empty cache.
+      const edges = await getDocsFromServer(query(collectionGroup(db, 'friends'), ...constraints));
+      if (edges.empty) {
+        break;
+      }
+      cursor = edges.docs[edges.docs.length - 1];
+      scanned += edges.size;
+
+      const missing = [];
+      for (const edge of edges.docs) {
+        const followerId = edge.ref.parent.parent.id;
+        const mirror = doc(db, 'users', edge.id, 'followers', followerId);
+        if (!(await getDocFromServer(mirror)).exists()) {
+          missing.push({ mirror, followerId, createdAt: edge.data().createdAt });
+        }
+      }
+      mirrored += missing.length;
+      if (dryRun) {
+        continue;
+      }
+      for (let start = 0; start < missing.length; start += BATCH_LIMIT) {
+        const batch = writeBatch(db);
+        missing.slice(start, start + BATCH_LIMIT).forEach(({ mirror, followerId, createdAt }) =>
+          batch.set(mirror, { followerId, createdAt: createdAt ?? serverTimestamp() })
+        );
+        await batch.commit();
+      }
+    }
+    console.log(`${dryRun ? 'Would mirror' : 'Mirrored'} ${mirrored} of ${scanned} follow edges.`);
+  } finally {
+    await terminate(db);
+  }
+};
+
+main().catch((error) => {
+  console.error('Follower backfill failed:', error.message ?? error);
+  process.exitCode = 1;
+});
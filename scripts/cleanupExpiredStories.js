@@ -0,0 +1,87 @@
+/**
+ * Deletes expired stories and their view receipts.
+ *
+ *   FIRESTORE_EMULATOR_HOST=localhost:8080 npm run cleanup:stories [-- --dry-run]
+ *
+ * Runs with the web SDK against the Firestore emulator only; against a real
+ * project the same purge belongs in a scheduled function with admin rights.
+ * Highlights keep their own copies of story media, so they are unaffected.
+ */
+const { initializeApp } = require('firebase/app');
+const {
+  collection,
+  connectFirestoreEmulator,
+  getDocsFromServer,
+  getFirestore,
+  limit,
+  query,
+  terminate,
+  Timestamp,
+  where,
+  writeBatch,
+} = require('firebase/firestore');
+
+const PAGE_SIZE = 100;
+// Firestore caps a batch at 500 writes.
+const BATCH_LIMIT = 450;
+
+const deleteRefs = async (db, refs) => {
+  for (let start = 0; start < refs.length; start += BATCH_LIMIT) {
+    const batch = writeBatch(db);
+    refs.slice(start, start + BATCH_LIMIT).forEach((ref) => batch.delete(ref));
+    await batch.commit();
+  }
+};
+
+const purgeStory = async (db, story) => {
+  const views = await getDocsFromServer(collection(db, 'stories', story.id, 'views'));
+  // The story goes last so a failed run can be repeated and still find its views.
+  await deleteRefs(db, [...views.docs.map((view) => view.ref), story.ref]);
+};
+
+const main = async () => {
+  const host = process.env.FIRESTORE_EMULATOR_HOST;
+  if (!host) {
+    throw new Error('Set FIRESTORE_EMULATOR_HOST (for example localhost:8080) to run against the emulator.');
+  }
+  const [hostname, port] = host.split(':');
+  const dryRun = process.argv.includes('--dry-run');
+  const app = initializeApp({
+    apiKey: 'emulator',
+    projectId: process.env.FIREBASE_PROJECT_ID || process.env.GCLOUD_PROJECT || 'demo-socialgram',
+  });
+  const db = getFirestore(app);
+  connectFirestoreEmulator(db, hostname, Number(port));
+
+  const expiredQuery = query(
+    collection(db, 'stories'),
+    where('expiresAt', '<=', Timestamp.now()),
+    limit(PAGE_SIZE)
+  );
+  let purged = 0;
+  try {
+    for (;;) {
+      // Server reads, so an unreachable emulator fails instead of reporting an empty cache.
+      const snapshot = await getDocsFromServer(expiredQuery);
+      if (dryRun) {
+        console.log(`${snapshot.size}${snapshot.size === PAGE_SIZE ? '+' : ''} expired stories would be purged.`);
+        return;
+      }
+      if (snapshot.empty) {
+        break;
+      }
+      for (const story of snapshot.docs) {
+        await purgeStory(db, story);
+      }
+      purged += snapshot.size;
+    }
+    console.log(`Purged ${purged} expired stories.`);
+  } finally {
+    await terminate(db);
+  }
+};
+
+main().catch((error) => {
+  console.error('Story cleanup failed:', error.message ?? error);
+  process.exitCode = 1;
+});
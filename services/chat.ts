@@ -0,0 +1,387 @@
+import {
+  collection,
+  deleteDoc,
+  deleteField,
+  doc,
+  getDocs,
+  increment,
+  query,
+  QueryDocumentSnapshot,
+  runTransaction,
+  serverTimestamp,
+  setDoc,
+  Timestamp,
+  updateDoc,
+  where,
+  writeBatch,
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { buildNotification, messageNotificationId, notificationDoc } from './notifications';
+import { UploadableMedia, uploadMedia, UploadOptions } from './upload';
+import { PostMediaType } from '../types/post';
+import { chunk } from '../utils/array';
+
+export const MESSAGES_PAGE_SIZE = 50;
+export const MAX_CLIP_SECONDS = 60;
+export const MAX_CLIP_BYTES = 25 * 1024 * 1024;
+// A typing marker is refreshed at most this often while the user types...
+export const TYPING_THROTTLE_MS = 3000;
+// ...and treated as stale this long after it was last refreshed.
+export const TYPING_TTL_MS = 6000;
+
+export const REACTION_EMOJIS = ['❤️', '😂', '😮', '😢', '😡', '👍'];
+
+export type ClipType = 'audio' | 'video';
+
+export type MessageQuote = {
+  id: string;
+  senderId: string;
+  type: 'text' | ClipType;
+  text?: string;
+  // Set on replies once the quoted message is deleted for everyone.
+  deleted?: boolean;
+};
+
+// The story a reply or reaction refers to, copied so it survives the story's expiry.
+export type StoryQuote = {
+  id: string;
+  ownerId: string;
+  mediaUrl: string;
+  mediaType: PostMediaType;
+  reaction?: boolean;
+};
+
+export type ChatMessage = {
+  id: string;
+  senderId: string;
+  type?: 'text' | ClipType;
+  text?: string;
+  mediaUrl?: string;
+  durationMs?: number;
+  createdAt?: Timestamp;
+  // Still in the local write queue, i.e. not yet delivered to the server.
+  pending?: boolean;
+  // One emoji per participant, keyed by uid.
+  reactions?: Record<string, string>;
+  replyTo?: MessageQuote;
+  story?: StoryQuote;
+  editedAt?: Timestamp;
+  deleted?: boolean;
+};
+
+export type ChatPreview = {
+  id?: string;
+  senderId: string;
+  type: 'text' | ClipType;
+  text?: string;
+  deleted?: boolean;
+};
+
+export type ChatKind = 'direct' | 'group';
+
+export type ChatSummary = {
+  id: string;
+  // Chats written before groups existed have no `kind` and are direct.
+  kind?: ChatKind;
+  participants: string[];
+  name?: string;
+  photoUrl?: string;
+  admins?: string[];
+  lastMessage?: ChatPreview;
+  lastMessageAt?: Timestamp;
+  unreadCounts?: Record<string, number>;
+  lastReadAt?: Record<string, Timestamp>;
+};
+
+export type OutgoingClip = {
+  type: ClipType;
+  asset: UploadableMedia;
+  durationMs?: number;
+};
+
+/**
+ * Id of the direct chat between the given users: their sorted, de-duplicated
+ * uids joined by `_`. Groups use generated ids instead (see `createGroupChat`)
+ * because their member list changes over time.
+ */
+export const buildChatId = (...uids: string[]) => Array.from(new Set(uids)).sort().join('_');
+
+/** The other member of a direct chat id from `buildChatId`; undefined for group ids. */
+export const directChatPeer = (chatId: string, uid: string) => {
+  const members = chatId.split('_');
+  return members.length === 2 && members.includes(uid) ? members.find((member) => member !== uid) : undefined;
+};
+
+export const isGroupChat = (chat?: Pick<ChatSummary, 'kind'> | null) => chat?.kind === 'group';
+
+export const chatsCollection = () => collection(db, 'chats');
+
+export const chatDoc = (chatId: string) => doc(db, 'chats', chatId);
+
+export const messagesCollection = (chatId: string) => collection(db, 'chats', chatId, 'messages');
+
+export const toChatSummary = (docSnap: QueryDocumentSnapshot): ChatSummary => {
+  const data = docSnap.data({ serverTimestamps: 'estimate' }) as Omit<ChatSummary, 'id'>;
+  return { ...data, id: docSnap.id, participants: data.participants ?? [] };
+};
+
+export const previewText = (preview?: Omit<ChatPreview, 'senderId'>) => {
+  if (preview?.deleted) {
+    return 'Message deleted';
+  }
+  switch (preview?.type) {
+    case 'audio':
+      return 'Voice message';
+    case 'video':
+      return 'Video message';
+    default:
+      return preview?.text ?? '';
+  }
+};
+
+/**
+ * Writes a message and refreshes the chat doc the inbox lists in one
+ * transaction: the preview, activity time and an unread count for everyone but
+ * the sender, whose per-chat notification is bumped alongside. Recipients come
+ * from the stored member list, never the caller's copy, so a stale list can't
+ * undo group membership edits; `participants` is only written when a direct
+ * chat is first created.
+ */
+const postMessage = async (
+  chatId: string,
+  senderId: string,
+  participants: string[],
+  message: Omit<ChatPreview, 'id' | 'senderId' | 'deleted'> & {
+    mediaUrl?: string;
+    durationMs?: number;
+    replyTo?: MessageQuote;
+    story?: StoryQuote;
+  }
+) => {
+  const messageRef = doc(messagesCollection(chatId));
+  await runTransaction(db, async (transaction) => {
+    const chat = await transaction.get(chatDoc(chatId));
+    const stored = chat.data()?.participants as string[] | undefined;
+    if (!chat.exists() && directChatPeer(chatId, senderId) === undefined) {
+      throw new Error('This chat no longer exists.');
+    }
+    const members = stored ?? participants;
+    if (!members.includes(senderId)) {
+      throw new Error('You are no longer in this chat.');
+    }
+
+    const unreadCounts: Record<string, ReturnType<typeof increment>> = {};
+    members.filter((uid) => uid !== senderId).forEach((uid) => {
+      unreadCounts[uid] = increment(1);
+    });
+
+    transaction.set(messageRef, { ...message, senderId, createdAt: serverTimestamp() });
+    const notification = {
+      ...buildNotification('message', senderId, { chatId, text: previewText(message) }),
+      count: increment(1),
+    };
+    Object.keys(unreadCounts).forEach((uid) => {
+      transaction.set(notificationDoc(uid, messageNotificationId(chatId)), notification, { merge: true });
+    });
+    transaction.set(
+      chatDoc(chatId),
+      {
+        ...(stored ? {} : { participants: members }),
+        lastMessage: {
+          id: messageRef.id,
+          senderId,
+          type: message.type,
+          ...(message.text ? { text: message.text } : {}),
+        },
+        lastMessageAt: serverTimestamp(),
+        unreadCounts,
+      },
+      { merge: true }
+    );
+  });
+  return messageRef.id;
+};
+
+export const sendTextMessage = (
+  chatId: string,
+  senderId: string,
+  participants: string[],
+  text: string,
+  replyTo?: MessageQuote
+) => postMessage(chatId, senderId, participants, { type: 'text', text, ...(replyTo ? { replyTo } : {}) });
+
+/**
+ * Replies to a story, or reacts to it when `reaction` is set, as a text
+ * message in the direct chat with its owner. The chat is created if needed.
+ */
+export const sendStoryReply = (
+  senderId: string,
+  story: Omit<StoryQuote, 'reaction'>,
+  text: string,
+  reaction = false
+) =>
+  postMessage(buildChatId(senderId, story.ownerId), senderId, [senderId, story.ownerId], {
+    type: 'text',
+    text,
+    story: { ...story, ...(reaction ? { reaction } : {}) },
+  });
+
+export const quoteMessage = (message: ChatMessage): MessageQuote => ({
+  id: message.id,
+  senderId: message.senderId,
+  type: message.type ?? 'text',
+  ...(message.text ? { text: message.text.slice(0, 140) } : {}),
+});
+
+/** Sets or, with `null`, removes `uid`'s reaction on a message. */
+export const setReaction = (chatId: string, messageId: string, uid: string, emoji: string | null) =>
+  updateDoc(doc(messagesCollection(chatId), messageId), {
+    [`reactions.${uid}`]: emoji ?? deleteField(),
+  });
+
+/**
+ * Applies `changes` to a message and, when it is the chat's latest message,
+ * keeps the inbox preview in step.
+ */
+const reviseMessage = (
+  chatId: string,
+  messageId: string,
+  changes: Record<string, unknown>,
+  preview: (current: ChatPreview) => ChatPreview
+) =>
+  runTransaction(db, async (transaction) => {
+    const messageRef = doc(messagesCollection(chatId), messageId);
+    const [message, chat] = await Promise.all([transaction.get(messageRef), transaction.get(chatDoc(chatId))]);
+    if (!message.exists() || message.data().deleted) {
+      throw new Error('This message was deleted.');
+    }
+    transaction.update(messageRef, changes);
+    const lastMessage = chat.data()?.lastMessage as ChatPreview | undefined;
+    if (lastMessage?.id === messageId) {
+      transaction.update(chatDoc(chatId), { lastMessage: preview(lastMessage) });
+    }
+  });
+
+export const editTextMessage = (chatId: string, messageId: string, text: string) =>
+  reviseMessage(chatId, messageId, { text, editedAt: serverTimestamp() }, (current) => ({ ...current, text }));
+
+/**
+ * Deletes for everyone by turning the message into a tombstone, then strips
+ * the copy of its text from every reply that quotes it.
+ */
+export const deleteMessage = async (chatId: string, messageId: string) => {
+  await reviseMessage(
+    chatId,
+    messageId,
+    {
+      deleted: true,
+      text: deleteField(),
+      mediaUrl: deleteField(),
+      durationMs: deleteField(),
+      reactions: deleteField(),
+      replyTo: deleteField(),
+      story: deleteField(),
+    },
+    (current) => ({ id: current.id, senderId: current.senderId, type: current.type, deleted: true })
+  );
+  const replies = await getDocs(query(messagesCollection(chatId), where('replyTo.id', '==', messageId)));
+  for (const group of chunk(replies.docs, 450)) {
+    const batch = writeBatch(db);
+    group.forEach((reply) =>
+      batch.update(reply.ref, { 'replyTo.text': deleteField(), 'replyTo.deleted': true })
+    );
+    await batch.commit();
+  }
+};
+
+/**
+ * Clears the unread count and moves the read marker that drives read ticks.
+ * The chat's message notification goes too, so its count starts over.
+ */
+export const markChatRead = async (chatId: string, uid: string) => {
+  const batch = writeBatch(db);
+  batch.update(chatDoc(chatId), {
+    [`unreadCounts.${uid}`]: 0,
+    [`lastReadAt.${uid}`]: serverTimestamp(),
+  });
+  batch.delete(notificationDoc(uid, messageNotificationId(chatId)));
+  await batch.commit();
+};
+
+export const typingCollection = (chatId: string) => collection(db, 'chats', chatId, 'typing');
+
+export const typingDoc = (chatId: string, uid: string) => doc(typingCollection(chatId), uid);
+
+export const setTyping = (chatId: string, uid: string, typing: boolean) =>
+  typing ? setDoc(typingDoc(chatId, uid), { at: serverTimestamp() }) : deleteDoc(typingDoc(chatId, uid));
+
+// Story replies sent before video stories only stored an `imageUrl`.
+type StoredStoryQuote = Partial<StoryQuote> & { imageUrl?: string };
+
+const toStoryQuote = (story?: StoredStoryQuote): StoryQuote | undefined => {
+  const mediaUrl = story?.mediaUrl ?? story?.imageUrl;
+  if (!story || !story.id || !story.ownerId || !mediaUrl) {
+    return undefined;
+  }
+  return {
+    id: story.id,
+    ownerId: story.ownerId,
+    mediaUrl,
+    mediaType: story.mediaUrl ? story.mediaType ?? 'image' : 'image',
+    ...(story.reaction ? { reaction: true } : {}),
+  };
+};
+
+/**
+ * Maps a message doc for display. Messages written before `type` existed only
+ * carry an `audioPath`/`videoPath`, so the type is inferred from those.
+ */
+export const toMessage = (docSnap: QueryDocumentSnapshot): ChatMessage => {
+  const payload = docSnap.data({ serverTimestamps: 'estimate' }) as Omit<Partial<ChatMessage>, 'story'> & {
+    audioPath?: string;
+    videoPath?: string;
+    story?: StoredStoryQuote;
+  };
+  const inferredType: ChatMessage['type'] = payload.type
+    ? payload.type
+    : payload.audioPath
+    ? 'audio'
+    : payload.videoPath
+    ? 'video'
+    : 'text';
+  return {
+    id: docSnap.id,
+    senderId: payload.senderId ?? 'unknown',
+    type: inferredType,
+    text: payload.text,
+    mediaUrl: payload.mediaUrl ?? payload.audioPath ?? payload.videoPath,
+    durationMs: payload.durationMs,
+    createdAt: payload.createdAt,
+    pending: docSnap.metadata.hasPendingWrites,
+    reactions: payload.reactions,
+    replyTo: payload.replyTo,
+    story: toStoryQuote(payload.story),
+    editedAt: payload.editedAt,
+    deleted: payload.deleted,
+  };
+};
+
+/**
+ * Uploads a recorded or picked clip to Cloudinary and posts it as a message.
+ * The upload's own duration wins over the recorder's estimate when present.
+ */
+export const sendClipMessage = async (
+  chatId: string,
+  senderId: string,
+  participants: string[],
+  clip: OutgoingClip,
+  options: Omit<UploadOptions, 'maxBytes'> = {}
+) => {
+  const uploaded = await uploadMedia(clip.asset, { ...options, maxBytes: MAX_CLIP_BYTES });
+  const durationMs = uploaded.duration ? Math.round(uploaded.duration * 1000) : clip.durationMs;
+  await postMessage(chatId, senderId, participants, {
+    type: clip.type,
+    mediaUrl: uploaded.url,
+    ...(durationMs ? { durationMs } : {}),
+  });
+};
@@ -1,4 +1,4 @@
-import { CLOUDINARY_URL, CLOUDINARY_UPLOAD_PRESET } from '@env';
+import { config } from './config';
 
-export const cloudinaryUrl = "https://api.cloudinary.com/v1_1/ddhlsfx3z/image/upload";
-export const cloudinaryUploadPreset = "socialgram_uploads";
\ No newline at end of file
+export const cloudinaryUrl = config.cloudinary.uploadUrl;
+export const cloudinaryUploadPreset = config.cloudinary.uploadPreset;
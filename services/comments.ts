@@ -0,0 +1,183 @@
+import {
+  collection,
+  doc,
+  getDocs,
+  increment,
+  runTransaction,
+  serverTimestamp,
+  Timestamp,
+  writeBatch,
+} from 'firebase/firestore';
+import { db } from './firebase';
+import {
+  buildNotification,
+  commentNotificationId,
+  notificationDoc,
+  replyNotificationId,
+} from './notifications';
+import { chunk } from '../utils/array';
+
+export const COMMENTS_PAGE_SIZE = 20;
+
+export type PostComment = {
+  id: string;
+  text: string;
+  userId: string;
+  createdAt?: Timestamp;
+  repliesCount?: number;
+};
+
+export type CommentReply = {
+  id: string;
+  text: string;
+  userId: string;
+  createdAt?: Timestamp;
+};
+
+export const commentsCollection = (postId: string) => collection(db, 'posts', postId, 'comments');
+
+export const repliesCollection = (postId: string, commentId: string) =>
+  collection(db, 'posts', postId, 'comments', commentId, 'replies');
+
+/**
+ * Adds a top-level comment, or a reply when `parentId` is set. Replies live in
+ * `comments/{parentId}/replies` and count towards the post's `commentsCount`.
+ * The post owner and, for replies, the comment's author are notified under
+ * ids derived from the new doc, so deleting it can take the notifications too.
+ */
+export const addComment = async (postId: string, userId: string, text: string, parentId?: string) => {
+  const postRef = doc(db, 'posts', postId);
+
+  if (!parentId) {
+    const commentRef = doc(commentsCollection(postId));
+    await runTransaction(db, async (transaction) => {
+      const post = await transaction.get(postRef);
+      transaction.set(commentRef, {
+        text,
+        userId,
+        createdAt: serverTimestamp(),
+      });
+      transaction.update(postRef, {
+        commentsCount: increment(1),
+      });
+      const ownerId = post.data()?.userId as string | undefined;
+      if (ownerId && ownerId !== userId) {
+        transaction.set(
+          notificationDoc(ownerId, commentNotificationId(commentRef.id)),
+          buildNotification('comment', userId, { postId, text })
+        );
+      }
+    });
+    return commentRef.id;
+  }
+
+  const parentRef = doc(commentsCollection(postId), parentId);
+  const replyRef = doc(repliesCollection(postId, parentId));
+  await runTransaction(db, async (transaction) => {
+    const [parent, post] = await Promise.all([transaction.get(parentRef), transaction.get(postRef)]);
+    if (!parent.exists()) {
+      throw new Error('This comment was deleted.');
+    }
+    transaction.set(replyRef, {
+      text,
+      userId,
+      createdAt: serverTimestamp(),
+    });
+    transaction.update(parentRef, { repliesCount: increment(1) });
+    transaction.update(postRef, { commentsCount: increment(1) });
+    // The comment's author hears about the reply; the post owner hears about it as a comment.
+    const parentAuthorId = parent.data().userId as string | undefined;
+    const ownerId = post.data()?.userId as string | undefined;
+    if (parentAuthorId && parentAuthorId !== userId) {
+      transaction.set(
+        notificationDoc(parentAuthorId, replyNotificationId(replyRef.id)),
+        buildNotification('reply', userId, { postId, text })
+      );
+    }
+    if (ownerId && ownerId !== userId && ownerId !== parentAuthorId) {
+      transaction.set(
+        notificationDoc(ownerId, commentNotificationId(replyRef.id)),
+        buildNotification('comment', userId, { postId, text })
+      );
+    }
+  });
+  return replyRef.id;
+};
+
+/**
+ * Deletes a top-level comment and lowers `commentsCount` by the comment plus
+ * the `repliesCount` stored on it, read in the same transaction so replies
+ * added or removed meanwhile are counted. The comment's notification goes in
+ * that transaction; the replies and theirs are removed afterwards in batches,
+ * and once the parent is gone they are already uncounted.
+ */
+export const deleteComment = async (postId: string, commentId: string) => {
+  const postRef = doc(db, 'posts', postId);
+  const commentRef = doc(commentsCollection(postId), commentId);
+
+  const deleted = await runTransaction(db, async (transaction) => {
+    const [comment, post] = await Promise.all([transaction.get(commentRef), transaction.get(postRef)]);
+    if (!comment.exists()) {
+      return null;
+    }
+    const repliesCount = (comment.data().repliesCount as number | undefined) ?? 0;
+    const ownerId = post.data()?.userId as string | undefined;
+    transaction.delete(commentRef);
+    transaction.update(postRef, { commentsCount: increment(-(1 + repliesCount)) });
+    if (ownerId) {
+      transaction.delete(notificationDoc(ownerId, commentNotificationId(commentId)));
+    }
+    return { ownerId, authorId: comment.data().userId as string | undefined };
+  });
+  if (!deleted) {
+    return;
+  }
+
+  const { ownerId, authorId } = deleted;
+  const replies = await getDocs(repliesCollection(postId, commentId));
+  // Up to three deletes per reply keeps each batch under Firestore's 500 writes.
+  for (const group of chunk(replies.docs, 150)) {
+    const batch = writeBatch(db);
+    group.forEach((reply) => {
+      batch.delete(reply.ref);
+      if (authorId) {
+        batch.delete(notificationDoc(authorId, replyNotificationId(reply.id)));
+      }
+      if (ownerId) {
+        batch.delete(notificationDoc(ownerId, commentNotificationId(reply.id)));
+      }
+    });
+    await batch.commit();
+  }
+};
+
+export const deleteReply = async (postId: string, commentId: string, replyId: string) => {
+  const postRef = doc(db, 'posts', postId);
+  const parentRef = doc(commentsCollection(postId), commentId);
+  const replyRef = doc(repliesCollection(postId, commentId), replyId);
+
+  await runTransaction(db, async (transaction) => {
+    const [reply, parent, post] = await Promise.all([
+      transaction.get(replyRef),
+      transaction.get(parentRef),
+      transaction.get(postRef),
+    ]);
+    if (!reply.exists()) {
+      return;
+    }
+    transaction.delete(replyRef);
+    const ownerId = post.data()?.userId as string | undefined;
+    if (ownerId) {
+      transaction.delete(notificationDoc(ownerId, commentNotificationId(replyId)));
+    }
+    // A reply left behind by a deleted comment was already taken off the post's count.
+    if (parent.exists()) {
+      const parentAuthorId = parent.data().userId as string | undefined;
+      if (parentAuthorId) {
+        transaction.delete(notificationDoc(parentAuthorId, replyNotificationId(replyId)));
+      }
+      transaction.update(parentRef, { repliesCount: increment(-1) });
+      transaction.update(postRef, { commentsCount: increment(-1) });
+    }
+  });
+};
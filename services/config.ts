@@ -0,0 +1,119 @@
+import {
+  APP_ENV,
+  CLOUDINARY_UPLOAD_PRESET,
+  CLOUDINARY_URL,
+  FIREBASE_API_KEY,
+  FIREBASE_APP_ID,
+  FIREBASE_AUTH_DOMAIN,
+  FIREBASE_MESSAGING_SENDER_ID,
+  FIREBASE_PROJECT_ID,
+  FIREBASE_STORAGE_BUCKET,
+} from '@env';
+
+export type AppProfile = 'development' | 'staging' | 'production';
+
+export type AppConfig = {
+  profile: AppProfile;
+  firebase: {
+    apiKey: string;
+    authDomain: string;
+    projectId: string;
+    storageBucket: string;
+    messagingSenderId: string;
+    appId: string;
+  };
+  cloudinary: {
+    uploadUrl: string;
+    uploadPreset: string;
+  };
+};
+
+export type ConfigIssue = {
+  key: string;
+  message: string;
+};
+
+const PROFILES: AppProfile[] = ['development', 'staging', 'production'];
+
+// Posts and stories mix images and videos, so uploads must let Cloudinary detect the type.
+const CLOUDINARY_UPLOAD_URL_PATTERN = /^https:\/\/api\.cloudinary\.com\/v1_1\/[^/]+\/auto\/upload$/;
+const CLOUDINARY_TYPED_URL_PATTERN = /^https:\/\/api\.cloudinary\.com\/v1_1\/[^/]+\/(image|video|raw)\/upload$/;
+
+// react-native-dotenv loads `.env.<APP_ENV>` on top of `.env`; without APP_ENV the
+// bundler mode picks `.env.development` or `.env.production`.
+const resolveProfile = (): AppProfile => {
+  const requested = APP_ENV?.trim().toLowerCase();
+  if (requested && PROFILES.includes(requested as AppProfile)) {
+    return requested as AppProfile;
+  }
+  return __DEV__ ? 'development' : 'production';
+};
+
+const env = {
+  CLOUDINARY_URL,
+  CLOUDINARY_UPLOAD_PRESET,
+  FIREBASE_API_KEY,
+  FIREBASE_AUTH_DOMAIN,
+  FIREBASE_PROJECT_ID,
+  FIREBASE_STORAGE_BUCKET,
+  FIREBASE_MESSAGING_SENDER_ID,
+  FIREBASE_APP_ID,
+};
+
+export type EnvKey = keyof typeof env;
+
+export type EnvValues = Record<EnvKey, string | undefined>;
+
+const readFrom = (values: EnvValues, key: EnvKey) => (typeof values[key] === 'string' ? values[key].trim() : '');
+
+const read = (key: EnvKey) => readFrom(env, key);
+
+/** Lists everything wrong with the given env values; empty when the app can start. */
+export const validateConfig = (values: EnvValues, appEnv?: string): ConfigIssue[] => {
+  const issues: ConfigIssue[] = [];
+
+  (Object.keys(values) as EnvKey[]).forEach((key) => {
+    if (!readFrom(values, key)) {
+      issues.push({ key, message: 'is missing or empty' });
+    }
+  });
+
+  const cloudinaryUrl = readFrom(values, 'CLOUDINARY_URL');
+  if (cloudinaryUrl && CLOUDINARY_TYPED_URL_PATTERN.test(cloudinaryUrl)) {
+    issues.push({
+      key: 'CLOUDINARY_URL',
+      message: `must use /auto/upload so both images and videos upload (found ${cloudinaryUrl.split('/').slice(-2).join('/')})`,
+    });
+  } else if (cloudinaryUrl && !CLOUDINARY_UPLOAD_URL_PATTERN.test(cloudinaryUrl)) {
+    issues.push({
+      key: 'CLOUDINARY_URL',
+      message: 'must look like https://api.cloudinary.com/v1_1/<cloudName>/auto/upload',
+    });
+  }
+
+  if (appEnv && !PROFILES.includes(appEnv.trim().toLowerCase() as AppProfile)) {
+    issues.push({ key: 'APP_ENV', message: `must be one of ${PROFILES.join(', ')}` });
+  }
+
+  return issues;
+};
+
+export const configIssues: ConfigIssue[] = validateConfig(env, APP_ENV);
+
+export const isConfigValid = configIssues.length === 0;
+
+export const config: AppConfig = {
+  profile: resolveProfile(),
+  firebase: {
+    apiKey: read('FIREBASE_API_KEY'),
+    authDomain: read('FIREBASE_AUTH_DOMAIN'),
+    projectId: read('FIREBASE_PROJECT_ID'),
+    storageBucket: read('FIREBASE_STORAGE_BUCKET'),
+    messagingSenderId: read('FIREBASE_MESSAGING_SENDER_ID'),
+    appId: read('FIREBASE_APP_ID'),
+  },
+  cloudinary: {
+    uploadUrl: read('CLOUDINARY_URL'),
+    uploadPreset: read('CLOUDINARY_UPLOAD_PRESET'),
+  },
+};
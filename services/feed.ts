@@ -0,0 +1,147 @@
+import { collection, query, where, QueryDocumentSnapshot, Timestamp } from 'firebase/firestore';
+import { db } from './firebase';
+import { createdAtMs, createLivePager, LivePager, LiveWindow, mergeLiveItems } from './livePager';
+import { Post } from '../types/post';
+import { chunk } from '../utils/array';
+
+export const FEED_PAGE_SIZE = 10;
+
+type FeedBucket = {
+  pager: LivePager;
+  window: LiveWindow<Post> | null;
+};
+
+export type FeedWindow = {
+  posts: Post[];
+  ready: boolean;
+  hasMore: boolean;
+  loadingMore: boolean;
+};
+
+export type FeedPager = LivePager;
+
+type FeedPagerOptions = {
+  userIds: string[];
+  pageSize?: number;
+  onChange: (window: FeedWindow) => void;
+  onError: (error: Error) => void;
+};
+
+const toPost = (docSnap: QueryDocumentSnapshot): Post => {
+  const data = docSnap.data({ serverTimestamps: 'estimate' }) as Omit<Post, 'id'>;
+  return { ...data, id: docSnap.id };
+};
+
+/**
+ * Pages through the posts of `userIds` newest first. Every bucket of authors is
+ * its own live pager (see `createLivePager`) and the buckets are merged by
+ * `createdAt`. Only posts newer than the oldest loaded post of every
+ * unfinished bucket are published, so the merged order never skips a post.
+ * The first error from any bucket is reported once for the whole feed.
+ */
+export const createFeedPager = ({
+  userIds,
+  pageSize = FEED_PAGE_SIZE,
+  onChange,
+  onError,
+}: FeedPagerOptions): FeedPager => {
+  const anchor = Timestamp.now();
+  const postsRef = collection(db, 'posts');
+  let started = false;
+  let disposed = false;
+  let failed = false;
+  let targetCount = pageSize;
+  let visibleCount = 0;
+
+  const isLoading = (bucket: FeedBucket) => !bucket.window?.ready || bucket.window.loadingMore;
+
+  const oldestLoaded = (bucket: FeedBucket) =>
+    (bucket.window?.items ?? []).reduce((oldest, post) => Math.min(oldest, createdAtMs(post)), Number.MAX_SAFE_INTEGER);
+
+  // The bucket whose oldest loaded post is the newest one limits how far the merged feed can go.
+  const frontierBucket = () => {
+    let frontier: FeedBucket | null = null;
+    let frontierMs = -1;
+    for (const bucket of buckets) {
+      if (bucket.window && !bucket.window.hasMore) {
+        continue;
+      }
+      const oldest = oldestLoaded(bucket);
+      if (oldest > frontierMs) {
+        frontier = bucket;
+        frontierMs = oldest;
+      }
+    }
+    return { bucket: frontier, frontierMs };
+  };
+
+  const publish = () => {
+    if (!started || disposed) {
+      return;
+    }
+
+    const { bucket: blocking, frontierMs } = frontierBucket();
+    const visible = mergeLiveItems(buckets.map((bucket) => bucket.window?.items ?? [])).filter(
+      (post) => !blocking || createdAtMs(post) >= frontierMs
+    );
+
+    const ready = buckets.every((bucket) => bucket.window?.ready);
+    const loadingMore = buckets.some(isLoading);
+    visibleCount = visible.length;
+
+    if (ready && !loadingMore && blocking && visible.length < targetCount) {
+      // Publishes again from the bucket's own update.
+      blocking.pager.loadMore();
+      return;
+    }
+
+    onChange({
+      posts: visible,
+      ready,
+      hasMore: !!blocking,
+      loadingMore: ready && loadingMore,
+    });
+  };
+
+  const report = (error: Error) => {
+    if (!failed) {
+      failed = true;
+      onError(error);
+    }
+  };
+
+  const buckets: FeedBucket[] = chunk(userIds).map((ids) => {
+    const bucket: FeedBucket = { pager: { loadMore: () => {}, dispose: () => {} }, window: null };
+    bucket.pager = createLivePager({
+      source: query(postsRef, where('userId', 'in', ids)),
+      pageSize,
+      toItem: toPost,
+      anchor,
+      onChange: (window) => {
+        bucket.window = window;
+        publish();
+      },
+      onError: report,
+    });
+    return bucket;
+  });
+
+  started = true;
+  if (!buckets.length) {
+    onChange({ posts: [], ready: true, hasMore: false, loadingMore: false });
+  }
+
+  return {
+    loadMore: () => {
+      if (disposed || buckets.some(isLoading) || !frontierBucket().bucket) {
+        return;
+      }
+      targetCount = visibleCount + pageSize;
+      publish();
+    },
+    dispose: () => {
+      disposed = true;
+      buckets.forEach((bucket) => bucket.pager.dispose());
+    },
+  };
+};
@@ -3,23 +3,17 @@ import { getFirestore, initializeFirestore } from 'firebase/firestore';
 import { getAuth, getReactNativePersistence, initializeAuth } from 'firebase/auth';
 import type { Auth } from 'firebase/auth';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import {
-  FIREBASE_API_KEY,
-  FIREBASE_APP_ID,
-  FIREBASE_AUTH_DOMAIN,
-  FIREBASE_MESSAGING_SENDER_ID,
-  FIREBASE_PROJECT_ID,
-  FIREBASE_STORAGE_BUCKET,
-} from '@env';
+import { config, isConfigValid } from './config';
 
-const firebaseConfig = {
-  apiKey: FIREBASE_API_KEY,
-  authDomain: FIREBASE_AUTH_DOMAIN,
-  projectId: FIREBASE_PROJECT_ID,
-  storageBucket: FIREBASE_STORAGE_BUCKET,
-  messagingSenderId: FIREBASE_MESSAGING_SENDER_ID,
-  appId: FIREBASE_APP_ID,
-};
+// With an invalid config RootNavigator shows the configuration error screen and
+// never touches Firebase; the placeholders only keep the SDK from throwing on import.
+const firebaseConfig = isConfigValid
+  ? config.firebase
+  : {
+      ...config.firebase,
+      apiKey: config.firebase.apiKey || 'missing-api-key',
+      projectId: config.firebase.projectId || 'missing-project-id',
+    };
 
 const app = getApps().length ? getApp() : initializeApp(firebaseConfig);
 
@@ -43,7 +37,7 @@ export const db = (() => {
     return initializeFirestore(app, {
       experimentalAutoDetectLongPolling: true,
     });
-  } catch (error: any) {
+  } catch {
     return getFirestore(app);
   }
 })();
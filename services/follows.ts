@@ -0,0 +1,85 @@
+import { doc, runTransaction, serverTimestamp, writeBatch } from 'firebase/firestore';
+import { db } from './firebase';
+import {
+  buildNotification,
+  followAcceptNotificationId,
+  followRequestNotificationId,
+  notificationDoc,
+} from './notifications';
+
+/*
+ * Every edge of the follow graph is stored on both users so each side can list
+ * it without a collection-group query:
+ *
+ *   users/{a}/friends/{b}          a follows b
+ *   users/{b}/followers/{a}        mirror of the above
+ *   users/{a}/sentRequests/{b}     a asked to follow b
+ *   users/{b}/followRequests/{a}   mirror of the above
+ */
+
+export type FollowState = 'none' | 'requested' | 'following';
+
+const followingRef = (uid: string, targetId: string) => doc(db, 'users', uid, 'friends', targetId);
+const followerRef = (uid: string, followerId: string) => doc(db, 'users', uid, 'followers', followerId);
+const sentRequestRef = (uid: string, targetId: string) => doc(db, 'users', uid, 'sentRequests', targetId);
+const incomingRequestRef = (uid: string, requesterId: string) =>
+  doc(db, 'users', uid, 'followRequests', requesterId);
+
+export const sendFollowRequest = async (uid: string, targetId: string) => {
+  if (uid === targetId) {
+    return;
+  }
+  const batch = writeBatch(db);
+  batch.set(sentRequestRef(uid, targetId), { targetId, createdAt: serverTimestamp() });
+  batch.set(incomingRequestRef(targetId, uid), { requesterId: uid, createdAt: serverTimestamp() });
+  batch.set(notificationDoc(targetId, followRequestNotificationId(uid)), buildNotification('follow_request', uid));
+  await batch.commit();
+};
+
+export const cancelFollowRequest = async (uid: string, targetId: string) => {
+  const batch = writeBatch(db);
+  batch.delete(sentRequestRef(uid, targetId));
+  batch.delete(incomingRequestRef(targetId, uid));
+  batch.delete(notificationDoc(targetId, followRequestNotificationId(uid)));
+  await batch.commit();
+};
+
+export const acceptFollowRequest = async (uid: string, requesterId: string) => {
+  await runTransaction(db, async (transaction) => {
+    const request = await transaction.get(incomingRequestRef(uid, requesterId));
+    if (!request.exists()) {
+      throw new Error('This follow request is no longer pending.');
+    }
+    transaction.delete(incomingRequestRef(uid, requesterId));
+    transaction.delete(sentRequestRef(requesterId, uid));
+    transaction.set(followingRef(requesterId, uid), { friendId: uid, createdAt: serverTimestamp() });
+    transaction.set(followerRef(uid, requesterId), { followerId: requesterId, createdAt: serverTimestamp() });
+    transaction.delete(notificationDoc(uid, followRequestNotificationId(requesterId)));
+    transaction.set(
+      notificationDoc(requesterId, followAcceptNotificationId(uid)),
+      buildNotification('follow_accept', uid)
+    );
+  });
+};
+
+export const declineFollowRequest = async (uid: string, requesterId: string) => {
+  const batch = writeBatch(db);
+  batch.delete(incomingRequestRef(uid, requesterId));
+  batch.delete(sentRequestRef(requesterId, uid));
+  batch.delete(notificationDoc(uid, followRequestNotificationId(requesterId)));
+  await batch.commit();
+};
+
+export const unfollow = async (uid: string, targetId: string) => {
+  const batch = writeBatch(db);
+  batch.delete(followingRef(uid, targetId));
+  batch.delete(followerRef(targetId, uid));
+  await batch.commit();
+};
+
+export const removeFollower = async (uid: string, followerId: string) => {
+  const batch = writeBatch(db);
+  batch.delete(followingRef(followerId, uid));
+  batch.delete(followerRef(uid, followerId));
+  await batch.commit();
+};
@@ -0,0 +1,114 @@
+import {
+  arrayRemove,
+  arrayUnion,
+  deleteField,
+  doc,
+  runTransaction,
+  serverTimestamp,
+  setDoc,
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { ChatSummary, chatDoc, chatsCollection } from './chat';
+import { UploadableMedia, uploadMedia, UploadOptions } from './upload';
+
+export const MAX_GROUP_NAME_LENGTH = 50;
+
+const cleanName = (name: string) => {
+  const trimmed = name.trim().slice(0, MAX_GROUP_NAME_LENGTH);
+  if (!trimmed) {
+    throw new Error('Give the group a name.');
+  }
+  return trimmed;
+};
+
+/** Creates a room owned by `creatorId`, who becomes its first admin. */
+export const createGroupChat = async (creatorId: string, name: string, memberIds: string[], photoUrl?: string) => {
+  const participants = Array.from(new Set([creatorId, ...memberIds]));
+  if (participants.length < 2) {
+    throw new Error('Pick at least one friend for the group.');
+  }
+  const ref = doc(chatsCollection());
+  await setDoc(ref, {
+    kind: 'group',
+    name: cleanName(name),
+    ...(photoUrl ? { photoUrl } : {}),
+    participants,
+    admins: [creatorId],
+    createdBy: creatorId,
+    createdAt: serverTimestamp(),
+    lastMessageAt: serverTimestamp(),
+  });
+  return ref.id;
+};
+
+/**
+ * Applies an admin-only change in a transaction that checks `actorId` is still
+ * an admin of the room, so a stale screen can't edit a group it lost rights to.
+ */
+const updateAsAdmin = (
+  chatId: string,
+  actorId: string,
+  changes: (chat: Omit<ChatSummary, 'id'>) => Record<string, unknown>
+) =>
+  runTransaction(db, async (transaction) => {
+    const snapshot = await transaction.get(chatDoc(chatId));
+    if (!snapshot.exists()) {
+      throw new Error('This group no longer exists.');
+    }
+    const chat = snapshot.data() as Omit<ChatSummary, 'id'>;
+    if (!chat.admins?.includes(actorId)) {
+      throw new Error('Only group admins can do that.');
+    }
+    transaction.update(chatDoc(chatId), changes(chat));
+  });
+
+export const renameGroup = (chatId: string, actorId: string, name: string) => {
+  const cleaned = cleanName(name);
+  return updateAsAdmin(chatId, actorId, () => ({ name: cleaned }));
+};
+
+export const uploadGroupPhoto = async (photo: UploadableMedia, options?: UploadOptions) =>
+  (await uploadMedia(photo, options)).url;
+
+export const setGroupPhoto = (chatId: string, actorId: string, photoUrl: string) =>
+  updateAsAdmin(chatId, actorId, () => ({ photoUrl }));
+
+export const addGroupMembers = (chatId: string, actorId: string, memberIds: string[]) =>
+  updateAsAdmin(chatId, actorId, () => ({ participants: arrayUnion(...memberIds) }));
+
+export const removeGroupMember = (chatId: string, actorId: string, memberId: string) =>
+  updateAsAdmin(chatId, actorId, () => ({
+    participants: arrayRemove(memberId),
+    admins: arrayRemove(memberId),
+    [`unreadCounts.${memberId}`]: deleteField(),
+    [`lastReadAt.${memberId}`]: deleteField(),
+  }));
+
+/**
+ * Removes `uid` from the room. When the last admin leaves, the longest-standing
+ * remaining member is promoted so the room can still be managed; when the last
+ * member leaves, the room is deleted.
+ */
+export const leaveGroup = (chatId: string, uid: string) =>
+  runTransaction(db, async (transaction) => {
+    const snapshot = await transaction.get(chatDoc(chatId));
+    if (!snapshot.exists()) {
+      return;
+    }
+    const chat = snapshot.data() as Omit<ChatSummary, 'id'>;
+    const remaining = (chat.participants ?? []).filter((member) => member !== uid);
+    if (!remaining.length) {
+      transaction.delete(chatDoc(chatId));
+      return;
+    }
+    const admins = (chat.admins ?? []).filter((admin) => admin !== uid);
+    if (!admins.length) {
+      admins.push(remaining[0]);
+    }
+    transaction.update(chatDoc(chatId), {
+      participants: remaining,
+      admins,
+      [`unreadCounts.${uid}`]: deleteField(),
+      [`lastReadAt.${uid}`]: deleteField(),
+    });
+  });
@@ -0,0 +1,107 @@
+import {
+  addDoc,
+  collection,
+  deleteField,
+  doc,
+  runTransaction,
+  serverTimestamp,
+  Timestamp,
+  updateDoc,
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { PostMediaType } from '../types/post';
+
+export const MAX_HIGHLIGHT_NAME_LENGTH = 30;
+export const MAX_HIGHLIGHT_ITEMS = 100;
+
+// A copy of the story rather than a reference, so it outlives the story's expiry and cleanup.
+export type HighlightItem = {
+  storyId: string;
+  mediaUrl: string;
+  mediaType: PostMediaType;
+  caption?: string;
+  createdAtMs?: number;
+};
+
+export type Highlight = {
+  id: string;
+  name: string;
+  coverUrl?: string;
+  items: HighlightItem[];
+  createdAt?: Timestamp;
+};
+
+export const highlightsCollection = (uid: string) => collection(db, 'users', uid, 'highlights');
+
+export const highlightDoc = (uid: string, highlightId: string) => doc(highlightsCollection(uid), highlightId);
+
+const coverFor = (item: HighlightItem) => (item.mediaType === 'image' ? item.mediaUrl : undefined);
+
+const toItem = (item: HighlightItem): HighlightItem => ({
+  storyId: item.storyId,
+  mediaUrl: item.mediaUrl,
+  mediaType: item.mediaType,
+  ...(item.caption ? { caption: item.caption } : {}),
+  ...(item.createdAtMs ? { createdAtMs: item.createdAtMs } : {}),
+});
+
+/** Starts a highlight with its first story, which also becomes the cover when it's an image. */
+export const createHighlight = async (uid: string, name: string, item: HighlightItem) => {
+  const trimmed = name.trim().slice(0, MAX_HIGHLIGHT_NAME_LENGTH);
+  if (!trimmed) {
+    throw new Error('Give the highlight a name.');
+  }
+  const cover = coverFor(item);
+  const ref = await addDoc(highlightsCollection(uid), {
+    name: trimmed,
+    ...(cover ? { coverUrl: cover } : {}),
+    items: [toItem(item)],
+    createdAt: serverTimestamp(),
+  });
+  return ref.id;
+};
+
+/** Appends a story unless it is already in the highlight. */
+export const addToHighlight = (uid: string, highlightId: string, item: HighlightItem) =>
+  runTransaction(db, async (transaction) => {
+    const ref = highlightDoc(uid, highlightId);
+    const snapshot = await transaction.get(ref);
+    if (!snapshot.exists()) {
+      throw new Error('This highlight was deleted.');
+    }
+    const highlight = snapshot.data() as Omit<Highlight, 'id'>;
+    const items = highlight.items ?? [];
+    if (items.some((entry) => entry.storyId === item.storyId)) {
+      return;
+    }
+    if (items.length >= MAX_HIGHLIGHT_ITEMS) {
+      throw new Error(`A highlight holds up to ${MAX_HIGHLIGHT_ITEMS} stories.`);
+    }
+    const cover = highlight.coverUrl ?? coverFor(item);
+    transaction.update(ref, {
+      items: [...items, toItem(item)],
+      ...(cover ? { coverUrl: cover } : {}),
+    });
+  });
+
+/** Removes a story from the highlight, deleting the highlight once it is empty. */
+export const removeFromHighlight = (uid: string, highlightId: string, storyId: string) =>
+  runTransaction(db, async (transaction) => {
+    const ref = highlightDoc(uid, highlightId);
+    const snapshot = await transaction.get(ref);
+    if (!snapshot.exists()) {
+      return;
+    }
+    const highlight = snapshot.data() as Omit<Highlight, 'id'>;
+    const items = (highlight.items ?? []).filter((entry) => entry.storyId !== storyId);
+    if (!items.length) {
+      transaction.delete(ref);
+      return;
+    }
+    const coverRemoved = !items.some((entry) => entry.mediaUrl === highlight.coverUrl);
+    const cover = coverRemoved ? items.map(coverFor).find(Boolean) : highlight.coverUrl;
+    transaction.update(ref, { items, coverUrl: cover ?? deleteField() });
+  });
+
+export const setHighlightCover = (uid: string, highlightId: string, coverUrl: string) =>
+  updateDoc(highlightDoc(uid, highlightId), { coverUrl });
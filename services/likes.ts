@@ -0,0 +1,90 @@
+import {
+  collection,
+  doc,
+  getDocs,
+  increment,
+  limit,
+  orderBy,
+  query,
+  QueryConstraint,
+  QueryDocumentSnapshot,
+  runTransaction,
+  serverTimestamp,
+  startAfter,
+  Timestamp,
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { buildNotification, likeNotificationId, notificationDoc } from './notifications';
+
+export const LIKES_PAGE_SIZE = 30;
+
+export type PostLike = {
+  userId: string;
+  createdAt?: Timestamp;
+};
+
+export type LikesPage = {
+  likes: PostLike[];
+  cursor: QueryDocumentSnapshot | null;
+  hasMore: boolean;
+};
+
+export const likesCollection = (postId: string) => collection(db, 'posts', postId, 'likes');
+
+/**
+ * Likes or unlikes the post, keeping `likesCount` and the owner's
+ * notification in step. With `onlyLike` an existing like is left alone,
+ * which is what double-tap wants. Resolves to whether the post is liked afterwards.
+ */
+export const togglePostLike = async (postId: string, uid: string, onlyLike = false) =>
+  runTransaction(db, async (transaction) => {
+    const likeRef = doc(likesCollection(postId), uid);
+    const postRef = doc(db, 'posts', postId);
+    const [likeDoc, post] = await Promise.all([transaction.get(likeRef), transaction.get(postRef)]);
+    const ownerId = post.data()?.userId as string | undefined;
+    const notificationRef =
+      ownerId && ownerId !== uid ? notificationDoc(ownerId, likeNotificationId(postId, uid)) : null;
+
+    if (likeDoc.exists()) {
+      if (!onlyLike) {
+        transaction.delete(likeRef);
+        transaction.update(postRef, { likesCount: increment(-1) });
+        if (notificationRef) {
+          transaction.delete(notificationRef);
+        }
+      }
+      return onlyLike;
+    }
+    transaction.set(likeRef, {
+      userId: uid,
+      createdAt: serverTimestamp(),
+    });
+    transaction.update(postRef, { likesCount: increment(1) });
+    if (notificationRef) {
+      transaction.set(notificationRef, buildNotification('like', uid, { postId }));
+    }
+    return true;
+  });
+
+/** Newest likes first, one page at a time. */
+export const fetchPostLikes = async (
+  postId: string,
+  cursor: QueryDocumentSnapshot | null,
+  pageSize = LIKES_PAGE_SIZE
+): Promise<LikesPage> => {
+  const constraints: QueryConstraint[] = [orderBy('createdAt', 'desc')];
+  if (cursor) {
+    constraints.push(startAfter(cursor));
+  }
+  constraints.push(limit(pageSize));
+
+  const snapshot = await getDocs(query(likesCollection(postId), ...constraints));
+  return {
+    likes: snapshot.docs.map((docSnap) => {
+      const data = docSnap.data() as Partial<PostLike>;
+      return { userId: data.userId ?? docSnap.id, createdAt: data.createdAt };
+    }),
+    cursor: snapshot.docs[snapshot.docs.length - 1] ?? null,
+    hasMore: snapshot.size === pageSize,
+  };
+};
@@ -0,0 +1,163 @@
+import {
+  limit,
+  onSnapshot,
+  orderBy,
+  query,
+  Query,
+  QueryConstraint,
+  QueryDocumentSnapshot,
+  startAfter,
+  Timestamp,
+  Unsubscribe,
+  where,
+} from 'firebase/firestore';
+
+export type LiveItem = {
+  id: string;
+  createdAt?: Timestamp;
+};
+
+export type LiveWindow<T> = {
+  // Newest first, one entry per id.
+  items: T[];
+  ready: boolean;
+  hasMore: boolean;
+  loadingMore: boolean;
+};
+
+export type LivePager = {
+  loadMore: () => void;
+  dispose: () => void;
+};
+
+export type LivePagerOptions<T> = {
+  // Filters shared by every page; ordering, cursors and limits are added here.
+  source: Query;
+  pageSize: number;
+  toItem: (docSnap: QueryDocumentSnapshot) => T;
+  // Defaults to now; pagers merged together should share one.
+  anchor?: Timestamp;
+  // Lets the live listener report pending writes, e.g. for delivery ticks.
+  includeMetadataChanges?: boolean;
+  onChange: (window: LiveWindow<T>) => void;
+  onError: (error: Error) => void;
+};
+
+type LivePage<T> = {
+  items: T[];
+  last: QueryDocumentSnapshot | null;
+  received: boolean;
+  unsubscribe: Unsubscribe;
+};
+
+// Items still waiting for their server timestamp are the newest there are.
+export const createdAtMs = (item: LiveItem) => item.createdAt?.toMillis?.() ?? Number.MAX_SAFE_INTEGER;
+
+/** Merges pages into one list: later copies of an id win, newest first. */
+export const mergeLiveItems = <T extends LiveItem>(groups: T[][]) => {
+  const lookup = new Map<string, T>();
+  groups.forEach((group) => group.forEach((item) => lookup.set(item.id, item)));
+  return Array.from(lookup.values()).sort((a, b) => createdAtMs(b) - createdAtMs(a));
+};
+
+/**
+ * Pages through `source` newest first. Everything up to the session anchor is
+ * read in `pageSize` chunks with `startAfter` cursors, each chunk staying live
+ * for edits and deletes, and one listener picks up docs created afterwards.
+ * The first error is reported once; later pages and listeners stay quiet.
+ */
+export const createLivePager = <T extends LiveItem>({
+  source,
+  pageSize,
+  toItem,
+  anchor = Timestamp.now(),
+  includeMetadataChanges = false,
+  onChange,
+  onError,
+}: LivePagerOptions<T>): LivePager => {
+  const pages: LivePage<T>[] = [];
+  let fresh: T[] = [];
+  let exhausted = false;
+  let failed = false;
+  let disposed = false;
+
+  const latestPage = () => pages[pages.length - 1];
+
+  const publish = () => {
+    if (disposed) {
+      return;
+    }
+    const latest = latestPage();
+    onChange({
+      items: mergeLiveItems([fresh, ...pages.map((page) => page.items)]),
+      ready: !!pages[0]?.received,
+      hasMore: !exhausted,
+      loadingMore: pages.length > 1 && !latest.received,
+    });
+  };
+
+  const report = (error: Error) => {
+    if (!failed && !disposed) {
+      failed = true;
+      onError(error);
+    }
+  };
+
+  const subscribePage = () => {
+    const previous = latestPage();
+    const constraints: QueryConstraint[] = [where('createdAt', '<=', anchor), orderBy('createdAt', 'desc')];
+    if (previous?.last) {
+      constraints.push(startAfter(previous.last));
+    }
+    constraints.push(limit(pageSize));
+
+    const page: LivePage<T> = { items: [], last: null, received: false, unsubscribe: () => {} };
+    pages.push(page);
+    publish();
+
+    page.unsubscribe = onSnapshot(
+      query(source, ...constraints),
+      (snapshot) => {
+        page.items = snapshot.docs.map(toItem);
+        page.last = snapshot.docs[snapshot.docs.length - 1] ?? previous?.last ?? null;
+        page.received = true;
+        if (latestPage() === page) {
+          exhausted = snapshot.size < pageSize;
+        }
+        publish();
+      },
+      (error) => {
+        page.received = true;
+        exhausted = true;
+        report(error);
+        publish();
+      }
+    );
+  };
+
+  const unsubscribeFresh = onSnapshot(
+    query(source, where('createdAt', '>', anchor), orderBy('createdAt', 'desc')),
+    { includeMetadataChanges },
+    (snapshot) => {
+      fresh = snapshot.docs.map(toItem);
+      publish();
+    },
+    report
+  );
+
+  subscribePage();
+
+  return {
+    loadMore: () => {
+      if (disposed || exhausted || !latestPage().received) {
+        return;
+      }
+      subscribePage();
+    },
+    dispose: () => {
+      disposed = true;
+      pages.forEach((page) => page.unsubscribe());
+      unsubscribeFresh();
+    },
+  };
+};
@@ -0,0 +1,167 @@
+import { collection, doc, runTransaction, serverTimestamp, Timestamp } from 'firebase/firestore';
+import { db } from './firebase';
+
+/*
+ * Activity for a user lives in users/{uid}/notifications and is written by
+ * whoever caused it, in the same batch or transaction as the action itself.
+ * Ids are deterministic where an action can be undone or repeated, so an
+ * unlike removes its notification and a busy chat keeps a single entry.
+ */
+
+export const NOTIFICATIONS_LIMIT = 100;
+export const NOTIFICATION_TEXT_LENGTH = 100;
+
+export type NotificationType = 'like' | 'comment' | 'reply' | 'follow_request' | 'follow_accept' | 'message';
+
+export type AppNotification = {
+  id: string;
+  type: NotificationType;
+  actorId: string;
+  postId?: string;
+  chatId?: string;
+  text?: string;
+  // Messages folded into a chat's entry since it was last read.
+  count?: number;
+  read: boolean;
+  createdAt?: Timestamp;
+};
+
+export type NotificationGroup = {
+  key: string;
+  type: NotificationType;
+  // Most recent first, one entry per person.
+  actorIds: string[];
+  latest: AppNotification;
+  ids: string[];
+  read: boolean;
+};
+
+export const notificationsCollection = (uid: string) => collection(db, 'users', uid, 'notifications');
+
+export const notificationDoc = (uid: string, id: string) => doc(notificationsCollection(uid), id);
+
+export const likeNotificationId = (postId: string, actorId: string) => `like_${postId}_${actorId}`;
+// Replies to a comment notify the post owner as comments too, under the reply's id.
+export const commentNotificationId = (commentId: string) => `comment_${commentId}`;
+export const replyNotificationId = (replyId: string) => `reply_${replyId}`;
+export const followRequestNotificationId = (actorId: string) => `follow_request_${actorId}`;
+export const followAcceptNotificationId = (actorId: string) => `follow_accept_${actorId}`;
+export const messageNotificationId = (chatId: string) => `message_${chatId}`;
+
+const isMessageNotificationId = (id: string) => id.startsWith('message_');
+
+/** Payload for a new unread notification. */
+export const buildNotification = (
+  type: NotificationType,
+  actorId: string,
+  { postId, chatId, text }: Pick<AppNotification, 'postId' | 'chatId' | 'text'> = {}
+) => ({
+  type,
+  actorId,
+  ...(postId ? { postId } : {}),
+  ...(chatId ? { chatId } : {}),
+  ...(text ? { text: text.slice(0, NOTIFICATION_TEXT_LENGTH) } : {}),
+  read: false,
+  createdAt: serverTimestamp(),
+});
+
+/**
+ * Marks the given notifications read, in chunks to stay under Firestore's
+ * write limit. The ids come from a snapshot, so entries deleted since (an
+ * unlike, a chat that was opened) are skipped rather than failing the rest.
+ * A chat's entry also restarts its message count, so the next message reads
+ * as new rather than adding to ones already seen.
+ */
+export const markNotificationsRead = async (uid: string, ids: string[]) => {
+  for (let start = 0; start < ids.length; start += 450) {
+    const refs = ids.slice(start, start + 450).map((id) => notificationDoc(uid, id));
+    await runTransaction(db, async (transaction) => {
+      const snapshots = await Promise.all(refs.map((ref) => transaction.get(ref)));
+      snapshots
+        .filter((snapshot) => snapshot.exists())
+        .forEach((snapshot) =>
+          transaction.update(
+            snapshot.ref,
+            isMessageNotificationId(snapshot.id) ? { read: true, count: 0 } : { read: true }
+          )
+        );
+    });
+  }
+};
+
+const groupKey = (notification: AppNotification) => {
+  switch (notification.type) {
+    case 'like':
+    case 'comment':
+    case 'reply':
+      return `${notification.type}:${notification.postId}`;
+    case 'message':
+      return notification.id;
+    default:
+      return notification.type;
+  }
+};
+
+/**
+ * Folds newest-first notifications into one row per post, chat or follow
+ * type. A group is unread while any of its notifications is.
+ */
+export const groupNotifications = (notifications: AppNotification[]): NotificationGroup[] => {
+  const groups = new Map<string, NotificationGroup>();
+  notifications.forEach((notification) => {
+    const key = groupKey(notification);
+    const group = groups.get(key);
+    if (!group) {
+      groups.set(key, {
+        key,
+        type: notification.type,
+        actorIds: [notification.actorId],
+        latest: notification,
+        ids: [notification.id],
+        read: notification.read,
+      });
+      return;
+    }
+    if (!group.actorIds.includes(notification.actorId)) {
+      group.actorIds.push(notification.actorId);
+    }
+    group.ids.push(notification.id);
+    group.read = group.read && notification.read;
+  });
+  return Array.from(groups.values());
+};
+
+const describeActors = (names: string[]) => {
+  if (names.length === 1) {
+    return names[0];
+  }
+  if (names.length === 2) {
+    return `${names[0]} and ${names[1]}`;
+  }
+  const others = names.length - 1;
+  return `${names[0]} and ${others} others`;
+};
+
+/** "Ana and 4 others liked your post" */
+export const describeNotificationGroup = (group: NotificationGroup, nameFor: (uid: string) => string) => {
+  const actors = describeActors(group.actorIds.map(nameFor));
+  const quoted = group.latest.text ? `: “${group.latest.text}”` : '';
+  switch (group.type) {
+    case 'like':
+      return `${actors} liked your post`;
+    case 'comment':
+      return `${actors} commented on your post${quoted}`;
+    case 'reply':
+      return `${actors} replied to your comment${quoted}`;
+    case 'follow_request':
+      return `${actors} asked to follow you`;
+    case 'follow_accept':
+      return `${actors} accepted your follow request`;
+    case 'message': {
+      const count = group.latest.count ?? 1;
+      return count > 1 ? `${actors} sent you ${count} messages` : `${actors} sent you a message${quoted}`;
+    }
+    default:
+      return actors;
+  }
+};
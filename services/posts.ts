@@ -0,0 +1,56 @@
+import {
+  collection,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  QueryConstraint,
+  QueryDocumentSnapshot,
+  startAfter,
+  where,
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { Post, PostMedia } from '../types/post';
+
+export const MAX_POST_MEDIA = 10;
+
+export const getPostMedia = (post: Pick<Post, 'media' | 'mediaUrl' | 'mediaType'>): PostMedia[] => {
+  if (post.media?.length) {
+    return post.media.filter((item) => !!item?.url);
+  }
+  if (post.mediaUrl) {
+    return [{ url: post.mediaUrl, type: post.mediaType === 'video' ? 'video' : 'image' }];
+  }
+  return [];
+};
+
+export const USER_POSTS_PAGE_SIZE = 18;
+
+export type UserPostsPage = {
+  posts: Post[];
+  cursor: QueryDocumentSnapshot | null;
+  hasMore: boolean;
+};
+
+/** One author's posts, newest first. Uses the same `(userId, createdAt)` index as the feed. */
+export const fetchUserPosts = async (
+  userId: string,
+  cursor: QueryDocumentSnapshot | null,
+  pageSize = USER_POSTS_PAGE_SIZE
+): Promise<UserPostsPage> => {
+  const constraints: QueryConstraint[] = [where('userId', '==', userId), orderBy('createdAt', 'desc')];
+  if (cursor) {
+    constraints.push(startAfter(cursor));
+  }
+  constraints.push(limit(pageSize));
+
+  const snapshot = await getDocs(query(collection(db, 'posts'), ...constraints));
+  return {
+    posts: snapshot.docs.map((docSnap) => {
+      const data = docSnap.data() as Omit<Post, 'id'>;
+      return { ...data, id: docSnap.id };
+    }),
+    cursor: snapshot.docs[snapshot.docs.length - 1] ?? null,
+    hasMore: snapshot.size === pageSize,
+  };
+};
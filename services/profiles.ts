@@ -0,0 +1,178 @@
+import {
+  collection,
+  doc,
+  documentId,
+  getCountFromServer,
+  getDoc,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  QueryDocumentSnapshot,
+  startAfter,
+  updateDoc,
+  where,
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { chunk } from '../utils/array';
+
+export type UserProfile = {
+  uid: string;
+  username?: string;
+  photoUrl?: string;
+};
+
+const cache = new Map<string, UserProfile>();
+const pending = new Map<string, Promise<void>>();
+
+export const getCachedProfile = (uid: string) => cache.get(uid);
+
+/**
+ * Resolves `users/{uid}` docs for display, reading each id at most once per
+ * session. Unknown ids resolve to a bare `{ uid }` so callers can fall back.
+ */
+export const fetchProfiles = async (uids: string[]): Promise<Record<string, UserProfile>> => {
+  const unique = Array.from(new Set(uids.filter(Boolean)));
+  const missing = unique.filter((uid) => !cache.has(uid) && !pending.has(uid));
+
+  chunk(missing).forEach((bucket) => {
+    const request = getDocs(query(collection(db, 'users'), where(documentId(), 'in', bucket)))
+      .then((snapshot) => {
+        snapshot.docs.forEach((docSnap) => {
+          const data = docSnap.data() as Omit<UserProfile, 'uid'>;
+          cache.set(docSnap.id, { uid: docSnap.id, username: data.username, photoUrl: data.photoUrl });
+        });
+        bucket.forEach((uid) => {
+          if (!cache.has(uid)) {
+            cache.set(uid, { uid });
+          }
+        });
+      })
+      .finally(() => bucket.forEach((uid) => pending.delete(uid)));
+    bucket.forEach((uid) => pending.set(uid, request));
+  });
+
+  await Promise.all(unique.map((uid) => pending.get(uid)).filter(Boolean));
+
+  const result: Record<string, UserProfile> = {};
+  unique.forEach((uid) => {
+    result[uid] = cache.get(uid) ?? { uid };
+  });
+  return result;
+};
+
+export type ProfileStats = {
+  posts: number;
+  following: number;
+  followers: number;
+};
+
+export const fetchProfileStats = async (uid: string): Promise<ProfileStats> => {
+  const [posts, following, followers] = await Promise.all([
+    getCountFromServer(query(collection(db, 'posts'), where('userId', '==', uid))),
+    getCountFromServer(collection(db, 'users', uid, 'friends')),
+    getCountFromServer(collection(db, 'users', uid, 'followers')),
+  ]);
+  return {
+    posts: posts.data().count,
+    following: following.data().count,
+    followers: followers.data().count,
+  };
+};
+
+export const USER_SEARCH_PAGE_SIZE = 20;
+// Upper bound on how many followed accounts are scanned for suggestions.
+const SUGGESTION_SOURCES = 20;
+
+export type UserSearchPage = {
+  users: UserProfile[];
+  cursor: QueryDocumentSnapshot | null;
+  hasMore: boolean;
+};
+
+export type SuggestedProfile = UserProfile & {
+  mutualCount: number;
+};
+
+/** Lowercased, trimmed form stored as `usernameLower` for prefix search. */
+export const normalizeUsername = (username: string) => username.trim().toLowerCase();
+
+const remember = (docSnap: QueryDocumentSnapshot) => {
+  const data = docSnap.data() as Omit<UserProfile, 'uid'>;
+  const profile = { uid: docSnap.id, username: data.username, photoUrl: data.photoUrl };
+  cache.set(docSnap.id, profile);
+  return profile;
+};
+
+/**
+ * Prefix search on `usernameLower`. Pass the previous page's `cursor` to
+ * continue; the first page is requested with `null`.
+ */
+export const searchProfiles = async (
+  term: string,
+  cursor: QueryDocumentSnapshot | null,
+  pageSize = USER_SEARCH_PAGE_SIZE
+): Promise<UserSearchPage> => {
+  const prefix = normalizeUsername(term);
+  if (!prefix) {
+    return { users: [], cursor: null, hasMore: false };
+  }
+
+  const constraints = [
+    where('usernameLower', '>=', prefix),
+    where('usernameLower', '<=', `${prefix}\uf8ff`),
+    orderBy('usernameLower'),
+    ...(cursor ? [startAfter(cursor)] : []),
+    limit(pageSize),
+  ];
+  const snapshot = await getDocs(query(collection(db, 'users'), ...constraints));
+  return {
+    users: snapshot.docs.map(remember),
+    cursor: snapshot.docs[snapshot.docs.length - 1] ?? cursor,
+    hasMore: snapshot.size === pageSize,
+  };
+};
+
+/**
+ * People followed by the accounts `uid` follows, ranked by how many of those
+ * accounts follow them. Already-followed ids in `exclude` are skipped.
+ */
+export const suggestProfiles = async (
+  uid: string,
+  following: string[],
+  exclude: string[] = [],
+  max = USER_SEARCH_PAGE_SIZE
+): Promise<SuggestedProfile[]> => {
+  const skip = new Set([uid, ...following, ...exclude]);
+  const counts = new Map<string, number>();
+
+  const snapshots = await Promise.all(
+    following.slice(0, SUGGESTION_SOURCES).map((friendId) => getDocs(collection(db, 'users', friendId, 'friends')))
+  );
+  snapshots.forEach((snapshot) =>
+    snapshot.docs.forEach((docSnap) => {
+      if (!skip.has(docSnap.id)) {
+        counts.set(docSnap.id, (counts.get(docSnap.id) ?? 0) + 1);
+      }
+    })
+  );
+
+  const ranked = Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, max);
+  const profiles = await fetchProfiles(ranked.map(([id]) => id));
+  return ranked.map(([id, mutualCount]) => ({ ...profiles[id], mutualCount }));
+};
+
+/**
+ * Accounts created before `usernameLower` existed are invisible to search;
+ * this fills the field in for the signed-in user.
+ */
+export const ensureSearchableProfile = async (uid: string) => {
+  const ref = doc(db, 'users', uid);
+  const snapshot = await getDoc(ref);
+  const username = snapshot.data()?.username;
+  if (typeof username === 'string' && snapshot.data()?.usernameLower !== normalizeUsername(username)) {
+    await updateDoc(ref, { usernameLower: normalizeUsername(username) });
+  }
+};
@@ -0,0 +1,77 @@
+import {
+  addDoc,
+  arrayRemove,
+  arrayUnion,
+  collection,
+  deleteDoc,
+  doc,
+  getDocs,
+  query,
+  serverTimestamp,
+  setDoc,
+  Timestamp,
+  updateDoc,
+  where,
+  writeBatch,
+} from 'firebase/firestore';
+import { db } from './firebase';
+
+/*
+ * Bookmarks are private to the saver:
+ *
+ *   users/{uid}/saved/{postId}              { postId, collectionIds, createdAt }
+ *   users/{uid}/savedCollections/{id}       { name, createdAt }
+ *
+ * A post can sit in any number of named collections; "All" is every saved doc.
+ */
+
+export const MAX_COLLECTION_NAME_LENGTH = 40;
+
+export type SavedPost = {
+  postId: string;
+  collectionIds?: string[];
+  createdAt?: Timestamp;
+};
+
+export type SavedCollection = {
+  id: string;
+  name: string;
+  createdAt?: Timestamp;
+};
+
+export const savedPostsCollection = (uid: string) => collection(db, 'users', uid, 'saved');
+
+export const savedPostDoc = (uid: string, postId: string) => doc(savedPostsCollection(uid), postId);
+
+export const savedCollectionsCollection = (uid: string) => collection(db, 'users', uid, 'savedCollections');
+
+// Merging keeps the collections of a post that is saved again.
+export const savePost = (uid: string, postId: string) =>
+  setDoc(savedPostDoc(uid, postId), { postId, createdAt: serverTimestamp() }, { merge: true });
+
+export const unsavePost = (uid: string, postId: string) => deleteDoc(savedPostDoc(uid, postId));
+
+export const createSavedCollection = async (uid: string, name: string) => {
+  const trimmed = name.trim().slice(0, MAX_COLLECTION_NAME_LENGTH);
+  if (!trimmed) {
+    throw new Error('Give the collection a name.');
+  }
+  const ref = await addDoc(savedCollectionsCollection(uid), { name: trimmed, createdAt: serverTimestamp() });
+  return ref.id;
+};
+
+/** Deletes the collection; its posts stay saved under "All". */
+export const deleteSavedCollection = async (uid: string, collectionId: string) => {
+  const members = await getDocs(
+    query(savedPostsCollection(uid), where('collectionIds', 'array-contains', collectionId))
+  );
+  const batch = writeBatch(db);
+  members.docs.forEach((docSnap) => batch.update(docSnap.ref, { collectionIds: arrayRemove(collectionId) }));
+  batch.delete(doc(savedCollectionsCollection(uid), collectionId));
+  await batch.commit();
+};
+
+export const setPostInCollection = (uid: string, postId: string, collectionId: string, included: boolean) =>
+  updateDoc(savedPostDoc(uid, postId), {
+    collectionIds: included ? arrayUnion(collectionId) : arrayRemove(collectionId),
+  });
@@ -0,0 +1,57 @@
+import {
+  collection,
+  doc,
+  increment,
+  query,
+  runTransaction,
+  serverTimestamp,
+  Timestamp,
+  where,
+} from 'firebase/firestore';
+import { db } from './firebase';
+
+export type StoryView = {
+  viewerId: string;
+  viewedAt?: Timestamp;
+};
+
+export const storiesCollection = () => collection(db, 'stories');
+
+export const storyDoc = (storyId: string) => doc(db, 'stories', storyId);
+
+export const storyViewsCollection = (storyId: string) => collection(db, 'stories', storyId, 'views');
+
+/**
+ * A user's stories that have not expired yet. The cut-off is fixed when the
+ * query is built, so listeners still drop stories that expire later with
+ * `isStoryExpired`. Needs a composite index on `userId` + `expiresAt`.
+ */
+export const activeStoriesQuery = (userId: string) =>
+  query(storiesCollection(), where('userId', '==', userId), where('expiresAt', '>', Timestamp.now()));
+
+export const isStoryExpired = (story: { expiresAt?: Timestamp }, nowMs = Date.now()) =>
+  !!story.expiresAt && story.expiresAt.toMillis() <= nowMs;
+
+// Views already recorded this session, so re-watching a story costs no round trip.
+const recordedViews = new Set<string>();
+
+/**
+ * Records that `viewerId` saw the story and bumps its `viewsCount`. Only the
+ * first view per viewer counts; later calls leave the original time in place.
+ */
+export const recordStoryView = async (storyId: string, viewerId: string) => {
+  const key = `${storyId}/${viewerId}`;
+  if (recordedViews.has(key)) {
+    return;
+  }
+  await runTransaction(db, async (transaction) => {
+    const viewRef = doc(storyViewsCollection(storyId), viewerId);
+    const view = await transaction.get(viewRef);
+    if (view.exists()) {
+      return;
+    }
+    transaction.set(viewRef, { viewerId, viewedAt: serverTimestamp() });
+    transaction.update(storyDoc(storyId), { viewsCount: increment(1) });
+  });
+  recordedViews.add(key);
+};
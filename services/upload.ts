@@ -0,0 +1,159 @@
+import axios from 'axios';
+import { cloudinaryUploadPreset, cloudinaryUrl } from './cloudinary';
+
+export const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+export const MAX_VIDEO_BYTES = 100 * 1024 * 1024;
+
+const MAX_ATTEMPTS = 3;
+const BASE_BACKOFF_MS = 1000;
+
+export type UploadableMedia = {
+  uri: string;
+  type?: string;
+  fileName?: string;
+  fileSize?: number;
+};
+
+export type UploadResult = {
+  url: string;
+  publicId: string;
+  resourceType: 'image' | 'video';
+  width?: number;
+  height?: number;
+  duration?: number;
+  bytes?: number;
+};
+
+export type UploadOptions = {
+  onProgress?: (fraction: number) => void;
+  signal?: AbortSignal;
+  maxBytes?: number;
+};
+
+export type UploadErrorCode =
+  | 'upload/not-configured'
+  | 'upload/too-large'
+  | 'upload/cancelled'
+  | 'upload/network'
+  | 'upload/rejected';
+
+export class UploadError extends Error {
+  code: UploadErrorCode;
+
+  constructor(code: UploadErrorCode, message: string) {
+    super(message);
+    this.name = 'UploadError';
+    this.code = code;
+  }
+}
+
+export const isUploadCancelled = (error: unknown) =>
+  error instanceof UploadError && error.code === 'upload/cancelled';
+
+export const isVideoMedia = (media: Pick<UploadableMedia, 'type'>) => !!media.type?.startsWith('video');
+
+const formatMegabytes = (bytes: number) => `${Math.round(bytes / (1024 * 1024))} MB`;
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new UploadError('upload/cancelled', 'Upload cancelled.'));
+    };
+    signal?.addEventListener('abort', onAbort);
+  });
+
+const isRetryable = (error: any) => {
+  if (axios.isCancel(error)) {
+    return false;
+  }
+  const status: number | undefined = error?.response?.status;
+  return status === undefined || status >= 500;
+};
+
+/**
+ * Uploads a picked asset to Cloudinary with the unsigned preset. Network
+ * failures and 5xx responses are retried with exponential backoff; aborting
+ * `signal` stops the current request and any pending retry.
+ */
+export const uploadMedia = async (media: UploadableMedia, options: UploadOptions = {}): Promise<UploadResult> => {
+  const { onProgress, signal } = options;
+  const video = isVideoMedia(media);
+
+  if (!cloudinaryUrl || !cloudinaryUploadPreset) {
+    throw new UploadError('upload/not-configured', 'Cloudinary credentials are not set.');
+  }
+
+  const maxBytes = options.maxBytes ?? (video ? MAX_VIDEO_BYTES : MAX_IMAGE_BYTES);
+  if (media.fileSize && media.fileSize > maxBytes) {
+    throw new UploadError(
+      'upload/too-large',
+      `This file is ${formatMegabytes(media.fileSize)}. The limit is ${formatMegabytes(maxBytes)}.`
+    );
+  }
+
+  const buildForm = () => {
+    const formData = new FormData();
+    formData.append('file', {
+      uri: media.uri,
+      type: media.type ?? (video ? 'video/mp4' : 'image/jpeg'),
+      name: media.fileName ?? `upload-${Date.now()}`,
+    } as any);
+    formData.append('upload_preset', cloudinaryUploadPreset);
+    return formData;
+  };
+
+  for (let attempt = 1; ; attempt += 1) {
+    if (signal?.aborted) {
+      throw new UploadError('upload/cancelled', 'Upload cancelled.');
+    }
+
+    try {
+      onProgress?.(0);
+      const response = await axios.post(cloudinaryUrl, buildForm(), {
+        headers: { 'Content-Type': 'multipart/form-data' },
+        signal,
+        onUploadProgress: (event) => {
+          if (event.total) {
+            onProgress?.(Math.min(event.loaded / event.total, 1));
+          }
+        },
+      });
+
+      const data = response.data ?? {};
+      if (!data.secure_url) {
+        throw new UploadError('upload/rejected', 'Upload succeeded but no URL was returned.');
+      }
+      onProgress?.(1);
+
+      return {
+        url: data.secure_url,
+        publicId: data.public_id,
+        resourceType: data.resource_type === 'video' ? 'video' : 'image',
+        width: data.width,
+        height: data.height,
+        duration: data.duration,
+        bytes: data.bytes,
+      };
+    } catch (error: any) {
+      if (error instanceof UploadError) {
+        throw error;
+      }
+      if (axios.isCancel(error) || signal?.aborted) {
+        throw new UploadError('upload/cancelled', 'Upload cancelled.');
+      }
+      if (!isRetryable(error)) {
+        const reason = error?.response?.data?.error?.message;
+        throw new UploadError('upload/rejected', reason ?? 'The media server rejected this file.');
+      }
+      if (attempt >= MAX_ATTEMPTS) {
+        throw new UploadError('upload/network', 'Network error while uploading. Check your connection.');
+      }
+      await wait(BASE_BACKOFF_MS * 2 ** (attempt - 1), signal);
+    }
+  }
+};
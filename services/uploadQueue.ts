@@ -0,0 +1,364 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo from '@react-native-community/netinfo';
+import { copyFile, DocumentDirectoryPath, mkdir, unlink } from '@dr.pogodin/react-native-fs';
+import { doc, FirestoreError, runTransaction, serverTimestamp, Timestamp } from 'firebase/firestore';
+import { auth, db } from './firebase';
+import { isUploadCancelled, UploadableMedia, UploadError, uploadMedia } from './upload';
+import { PostMedia, PostMediaType } from '../types/post';
+
+export const STORY_TTL_MS = 24 * 60 * 60 * 1000;
+
+const STORAGE_KEY = 'socialgram/upload-queue';
+
+// Picker URIs point at temp files or content:// grants that don't survive a
+// restart, so queued media is copied here until its post is published.
+const MEDIA_DIR = `${DocumentDirectoryPath}/upload-queue`;
+
+export type UploadKind = 'post' | 'story';
+
+export type UploadStatus = 'queued' | 'uploading' | 'waiting-for-network' | 'failed';
+
+export type QueuedMedia = {
+  asset: UploadableMedia;
+  type: PostMediaType;
+  // Set once Cloudinary accepted the file so a retry skips it.
+  uploaded?: PostMedia;
+  progress: number;
+};
+
+export type QueuedUpload = {
+  id: string;
+  kind: UploadKind;
+  ownerId: string;
+  username: string;
+  userPhotoUrl: string | null;
+  media: QueuedMedia[];
+  caption: string;
+  status: UploadStatus;
+  progress: number;
+  error?: string;
+  createdAtMs: number;
+};
+
+export type NewUpload = {
+  kind: UploadKind;
+  media: { asset: UploadableMedia; type: PostMediaType }[];
+  caption: string;
+};
+
+type QueueListener = (items: QueuedUpload[]) => void;
+
+let items: QueuedUpload[] = [];
+let hydration: Promise<void> | null = null;
+let online = true;
+let processing = false;
+const controllers = new Map<string, AbortController>();
+const listeners = new Set<QueueListener>();
+
+const emit = () => {
+  listeners.forEach((listener) => listener(items));
+};
+
+const persist = async () => {
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(items));
+  } catch (error) {
+    console.error('Failed to persist upload queue', error);
+  }
+};
+
+const setItems = (next: QueuedUpload[], { save = true } = {}) => {
+  items = next;
+  emit();
+  if (save) {
+    persist();
+  }
+};
+
+const patchItem = (id: string, patch: Partial<QueuedUpload>, options?: { save?: boolean }) => {
+  setItems(
+    items.map((item) => (item.id === id ? { ...item, ...patch } : item)),
+    options
+  );
+};
+
+const extensionFor = (asset: UploadableMedia, type: PostMediaType) => {
+  const match = /\.(\w+)$/.exec(asset.fileName ?? asset.uri.split('?')[0]);
+  return match ? match[1] : type === 'video' ? 'mp4' : 'jpg';
+};
+
+const queuedUri = (itemId: string, index: number, asset: UploadableMedia, type: PostMediaType) =>
+  `file://${MEDIA_DIR}/${itemId}-${index}.${extensionFor(asset, type)}`;
+
+/** Deletes the queue's own copies; assets queued before copying existed are left alone. */
+const removeQueuedFiles = (media: Pick<QueuedMedia, 'asset'>[]) => {
+  media
+    .filter((entry) => entry.asset.uri.startsWith(`file://${MEDIA_DIR}/`))
+    .forEach((entry) =>
+      unlink(entry.asset.uri.replace('file://', '')).catch((error) =>
+        console.error('Failed to remove queued media', error)
+      )
+    );
+};
+
+// Items queued before carousels held a single asset with its type and URL alongside.
+type LegacyQueuedUpload = Omit<QueuedUpload, 'media'> & {
+  media: UploadableMedia;
+  mediaType?: PostMediaType;
+  mediaUrl?: string;
+};
+
+const toCurrentShape = (item: QueuedUpload | LegacyQueuedUpload): QueuedUpload => {
+  if (Array.isArray(item.media)) {
+    return item as QueuedUpload;
+  }
+  const { media: asset, mediaType, mediaUrl, ...rest } = item as LegacyQueuedUpload;
+  const type = mediaType ?? 'image';
+  return {
+    ...rest,
+    media: [{ asset, type, progress: 0, ...(mediaUrl ? { uploaded: { url: mediaUrl, type } } : {}) }],
+  };
+};
+
+const hydrate = () => {
+  if (!hydration) {
+    hydration = (async () => {
+      try {
+        const stored = await AsyncStorage.getItem(STORAGE_KEY);
+        const parsed: (QueuedUpload | LegacyQueuedUpload)[] = stored ? JSON.parse(stored) : [];
+        // Anything that was mid-flight when the app died starts over.
+        const restored = parsed
+          .filter((item) => !!item.media)
+          .map(toCurrentShape)
+          .map((item) => (item.status === 'failed' ? item : { ...item, status: 'queued' as const, progress: 0 }));
+        setItems([...restored, ...items.filter((item) => !restored.some((entry) => entry.id === item.id))]);
+      } catch (error) {
+        console.error('Failed to restore upload queue', error);
+      }
+    })();
+  }
+  return hydration;
+};
+
+export const isFullyUploaded = (item: QueuedUpload) => item.media.every((entry) => !!entry.uploaded);
+
+/**
+ * Writes the post or story under the queue item's id, so a retry after a
+ * write that actually landed finds the doc instead of publishing it twice.
+ */
+const publish = (item: QueuedUpload, media: PostMedia[]) =>
+  runTransaction(db, async (transaction) => {
+    const [cover] = media;
+    const ref = doc(db, item.kind === 'story' ? 'stories' : 'posts', item.id);
+    const existing = await transaction.get(ref);
+    if (existing.exists()) {
+      return;
+    }
+
+    if (item.kind === 'story') {
+      transaction.set(ref, {
+        userId: item.ownerId,
+        username: item.username,
+        userPhotoUrl: item.userPhotoUrl,
+        ...(cover.type === 'image' ? { imageUrl: cover.url } : {}),
+        mediaUrl: cover.url,
+        mediaType: cover.type,
+        caption: item.caption || null,
+        createdAt: serverTimestamp(),
+        expiresAt: Timestamp.fromMillis(Date.now() + STORY_TTL_MS),
+      });
+      return;
+    }
+
+    transaction.set(ref, {
+      userId: item.ownerId,
+      username: item.username,
+      media,
+      mediaUrl: cover.url,
+      mediaType: cover.type,
+      caption: item.caption,
+      createdAt: serverTimestamp(),
+      likesCount: 0,
+      commentsCount: 0,
+    });
+  });
+
+const runUpload = async (item: QueuedUpload) => {
+  const controller = new AbortController();
+  controllers.set(item.id, controller);
+  patchItem(item.id, { status: 'uploading', progress: 0, error: undefined });
+
+  const patchMedia = (index: number, patch: Partial<QueuedMedia>, options?: { save?: boolean }) => {
+    const current = items.find((entry) => entry.id === item.id);
+    if (!current) {
+      return;
+    }
+    const media = current.media.map((entry, position) => (position === index ? { ...entry, ...patch } : entry));
+    const progress = media.reduce((sum, entry) => sum + (entry.uploaded ? 1 : entry.progress), 0) / media.length;
+    patchItem(item.id, { media, progress }, options);
+  };
+
+  try {
+    // Files upload in parallel; the post keeps the order they were picked in.
+    const media = await Promise.all(
+      item.media.map(async (entry, index) => {
+        if (entry.uploaded) {
+          return entry.uploaded;
+        }
+        const result = await uploadMedia(entry.asset, {
+          signal: controller.signal,
+          onProgress: (progress) => patchMedia(index, { progress }, { save: false }),
+        });
+        const uploaded: PostMedia = {
+          url: result.url,
+          type: result.resourceType,
+          ...(result.width ? { width: result.width } : {}),
+          ...(result.height ? { height: result.height } : {}),
+        };
+        patchMedia(index, { uploaded, progress: 1 });
+        return uploaded;
+      })
+    );
+
+    await publish(item, media);
+    setItems(items.filter((entry) => entry.id !== item.id));
+    removeQueuedFiles(item.media);
+  } catch (error: any) {
+    if (isUploadCancelled(error) || !items.some((entry) => entry.id === item.id)) {
+      return;
+    }
+    // One failed file should not leave its siblings uploading in the background.
+    controller.abort();
+    // Losing the connection after the files uploaded surfaces from the Firestore write instead.
+    const offline =
+      (error instanceof UploadError && error.code === 'upload/network') ||
+      (error instanceof FirestoreError && error.code === 'unavailable');
+    patchItem(item.id, {
+      status: offline ? 'waiting-for-network' : 'failed',
+      progress: 0,
+      error: error?.message ?? 'Could not upload media.',
+    });
+  } finally {
+    controllers.delete(item.id);
+  }
+};
+
+const processQueue = async () => {
+  await hydrate();
+  if (processing) {
+    return;
+  }
+
+  processing = true;
+  try {
+    while (online) {
+      const uid = auth.currentUser?.uid;
+      const next = items.find((item) => item.ownerId === uid && item.status === 'queued');
+      if (!next) {
+        break;
+      }
+      await runUpload(next);
+    }
+  } finally {
+    processing = false;
+  }
+};
+
+const requeueWaiting = () => {
+  if (items.some((item) => item.status === 'waiting-for-network')) {
+    setItems(
+      items.map((item) =>
+        item.status === 'waiting-for-network' ? { ...item, status: 'queued' as const } : item
+      )
+    );
+  }
+};
+
+/**
+ * Restores persisted uploads and keeps draining the queue for the signed-in
+ * user. Uploads that failed for lack of network wait here and resume as soon
+ * as NetInfo reports a connection again.
+ */
+export const startUploadQueue = () => {
+  const unsubscribe = NetInfo.addEventListener((state) => {
+    const connected = state.isConnected !== false && state.isInternetReachable !== false;
+    const reconnected = connected && !online;
+    online = connected;
+    if (reconnected) {
+      requeueWaiting();
+    }
+    if (connected) {
+      processQueue();
+    }
+  });
+
+  hydrate().then(() => {
+    requeueWaiting();
+    processQueue();
+  });
+
+  return unsubscribe;
+};
+
+export const subscribeToUploadQueue = (listener: QueueListener) => {
+  listeners.add(listener);
+  listener(items);
+  hydrate();
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const enqueueUpload = async (input: NewUpload) => {
+  const user = auth.currentUser;
+  if (!user) {
+    throw new Error('Sign in to share media.');
+  }
+
+  await hydrate();
+  const id = `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+  const media: QueuedMedia[] = input.media.map((entry, index) => ({
+    ...entry,
+    asset: { ...entry.asset, uri: queuedUri(id, index, entry.asset, entry.type) },
+    progress: 0,
+  }));
+  try {
+    await mkdir(MEDIA_DIR);
+    await Promise.all(
+      input.media.map((entry, index) => copyFile(entry.asset.uri, media[index].asset.uri.replace('file://', '')))
+    );
+  } catch (error) {
+    console.error('Failed to copy media for upload', error);
+    removeQueuedFiles(media);
+    throw new Error('Could not prepare the selected media for upload.');
+  }
+  const item: QueuedUpload = {
+    kind: input.kind,
+    media,
+    id,
+    ownerId: user.uid,
+    username: user.displayName || 'Anonymous',
+    userPhotoUrl: user.photoURL || null,
+    caption: input.caption.trim(),
+    status: 'queued',
+    progress: 0,
+    createdAtMs: Date.now(),
+  };
+  setItems([...items, item]);
+  processQueue();
+  return item;
+};
+
+export const retryUpload = (id: string) => {
+  patchItem(id, { status: 'queued', error: undefined, progress: 0 });
+  processQueue();
+};
+
+export const discardUpload = (id: string) => {
+  controllers.get(id)?.abort();
+  const discarded = items.find((item) => item.id === id);
+  setItems(items.filter((item) => item.id !== id));
+  if (discarded) {
+    removeQueuedFiles(discarded.media);
+  }
+};
@@ -1,4 +1,5 @@
 declare module '@env' {
+  export const APP_ENV: string | undefined;
   export const CLOUDINARY_URL: string;
   export const CLOUDINARY_UPLOAD_PRESET: string;
   export const FIREBASE_API_KEY: string;
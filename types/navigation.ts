@@ -1,19 +1,44 @@
+import { NavigatorScreenParams } from '@react-navigation/native';
+
 export type AuthStackParamList = {
   Login: undefined;
   Register: undefined;
 };
 
+export type FriendsTab = 'people' | 'requests' | 'followers';
+
 export type AppTabsParamList = {
   Feed: undefined;
-  Friends: undefined;
+  Friends: { tab?: FriendsTab } | undefined;
   Create: undefined;
+  Inbox: undefined;
+  Activity: undefined;
   Profile: undefined;
 };
 
 export type RootStackParamList = {
-  AppTabs: undefined;
+  AppTabs: NavigatorScreenParams<AppTabsParamList> | undefined;
+  // Direct chats are opened with the friend; group chats with their chatId.
   Chat: {
-    friendId: string;
-    friendName: string;
+    chatId?: string;
+    friendId?: string;
+    friendName?: string;
+  };
+  NewGroup: undefined;
+  GroupInfo: {
+    chatId: string;
+  };
+  Comments: {
+    postId: string;
+    postOwnerId: string;
+  };
+  Likes: {
+    postId: string;
+  };
+  UserProfile: {
+    userId: string;
+  };
+  PostDetail: {
+    postId: string;
   };
 };
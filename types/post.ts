@@ -0,0 +1,27 @@
+import type { Timestamp } from 'firebase/firestore';
+
+export type PostMediaType = 'image' | 'video';
+
+export type PostMedia = {
+  url: string;
+  type: PostMediaType;
+  width?: number;
+  height?: number;
+};
+
+export type Post = {
+  id: string;
+  userId: string;
+  username?: string;
+  userPhotoUrl?: string;
+  // Carousel posts keep every item in `media`; `mediaUrl`/`mediaType` mirror the
+  // first item so single-media posts and older clients keep working.
+  media?: PostMedia[];
+  mediaUrl?: string;
+  mediaType?: PostMediaType;
+  caption?: string;
+  title?: string;
+  createdAt?: Timestamp;
+  likesCount?: number;
+  commentsCount?: number;
+};
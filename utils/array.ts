@@ -0,0 +1,10 @@
+// Firestore caps `in` filters at 10 values, which is what most callers split ids for.
+const DEFAULT_CHUNK_SIZE = 10;
+
+export const chunk = <T>(input: T[], size = DEFAULT_CHUNK_SIZE) => {
+  const result: T[][] = [];
+  for (let i = 0; i < input.length; i += size) {
+    result.push(input.slice(i, i + size));
+  }
+  return result;
+};
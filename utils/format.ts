@@ -0,0 +1,29 @@
+import type { Timestamp } from 'firebase/firestore';
+
+export const formatRelativeTime = (timestamp?: Timestamp) => {
+  if (!timestamp) {
+    return 'Just now';
+  }
+  const diff = Date.now() - timestamp.toMillis();
+  const minutes = Math.floor(diff / 60000);
+  if (minutes < 1) {
+    return 'Just now';
+  }
+  if (minutes < 60) {
+    return `${minutes}m ago`;
+  }
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) {
+    return `${hours}h ago`;
+  }
+  const days = Math.floor(hours / 24);
+  return `${days}d ago`;
+};
+
+/** Formats a clip length as `m:ss`. */
+export const formatDuration = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};